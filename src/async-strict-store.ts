@@ -0,0 +1,614 @@
+import { strictJson } from '@src/strict-json';
+import {
+  deepMerge,
+  getFullName,
+  isStoreKey,
+  isStrictStoreEvent,
+  parseStoreKey,
+  resolveDefault,
+  resolveTargets,
+} from '@src/utils';
+import { resolveKey } from '@src/key-registry';
+import { decodeValue } from '@src/decode-value';
+import { StrictStoreValidationError } from '@src/errors';
+import { isVersioned, keyVersion, withVersion } from '@src/migration';
+import {
+  decodeEntry,
+  DecodedEntry,
+  encodeEntry,
+  EntryMeta,
+  isExpired,
+  resolveTtl,
+  shouldSlide,
+  slideEntry,
+} from '@src/entry';
+import { indexedDb, IndexedDbRecord } from '@src/indexed-db';
+import { contextId, createChangeEmitter } from '@src/change-emitter';
+import { decryptEntry, encryptValue, resolveEncryptionKey } from '@src/encryption';
+import { compressValue } from '@src/compression';
+import {
+  ChangeOrigin,
+  InvalidValuePolicy,
+  Persistable,
+  SaveOptions,
+  StorageChange,
+  StoreKey,
+  StoreKeyWithDefault,
+  StoreType,
+} from '@src/types';
+import { DeepPartial, PickResult } from '@src/internal-types';
+
+type AsyncStoreChange = StorageChange & {
+  readonly storeType: StoreType;
+}
+
+const CHANNEL_NAME = 'strict-store:indexed-db'
+
+const listeners = createChangeEmitter<AsyncStoreChange, [origin: ChangeOrigin]>()
+let channel: BroadcastChannel | null = null
+
+/**
+ * Notifies listeners of this context and, through a `BroadcastChannel`, of other tabs.
+ */
+const emitChanges = (changes: readonly AsyncStoreChange[]) => {
+  if (changes.length === 0) return
+
+  listeners.emit(changes, 'local')
+
+  if (typeof BroadcastChannel === 'undefined') return
+
+  const sender = new BroadcastChannel(CHANNEL_NAME)
+  sender.postMessage({ source: contextId, changes })
+  sender.close()
+}
+
+/**
+ * Adds a change listener. The channel receiving changes of other tabs is open only while there are listeners.
+ */
+const subscribe = (listener: (change: AsyncStoreChange, origin: ChangeOrigin) => void): () => void => {
+  const unsubscribe = listeners.subscribe(listener)
+
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (e: MessageEvent<{ source: string, changes: AsyncStoreChange[] }>) => {
+      if (e.data.source !== contextId) listeners.emit(e.data.changes, 'remote')
+    }
+  }
+
+  return () => {
+    unsubscribe()
+
+    if (listeners.size === 0 && channel) {
+      channel.close()
+      channel = null
+    }
+  }
+}
+
+/**
+ * Asynchronous counterpart of {@link StrictStore} backed by IndexedDB.
+ * @public
+ *
+ * Accepts the same {@link StoreKey} objects, with the same type safety, defaults, validation,
+ * TTL and migrations, but keeps values in IndexedDB: there is no ~5MB quota and no synchronous I/O
+ * on the main thread.
+ *
+ * @example
+ * ```typescript
+ * const samplesKey = createKey<Float64Array>('audio', 'samples');
+ *
+ * await AsyncStrictStore.save(samplesKey, new Float64Array(1_000_000));
+ * const samples: Float64Array | null = await AsyncStrictStore.get(samplesKey);
+ * ```
+ *
+ * @remarks
+ * - All values live in the `strict-store` IndexedDB database; the storage type of a key is only
+ *   part of its identity, as it is in {@link StrictStore}.
+ * - Values saved with {@link StrictStore} are not visible to `AsyncStrictStore` and vice versa.
+ * - Encrypted keys (see {@link registerEncryption}) are encrypted and decrypted transparently.
+ */
+class AsyncStrictStore {
+  /**
+   * To ignore TypeDoc
+   * */
+  private constructor() {}
+
+  /**
+   * Reads and decodes the stored entry of a key. Expired entries are removed and reported as missing.
+   * */
+  private static async readEntry(key: StoreKey<Persistable>): Promise<DecodedEntry | null> {
+    const raw = await indexedDb.get(key.storeType, getFullName(key.ns, key.name))
+    if (raw === null) return null
+
+    const entry = decodeEntry(raw)
+    if (isExpired(entry.meta)) {
+      await AsyncStrictStore.remove([key])
+      return null
+    }
+
+    return entry
+  }
+
+  /**
+   * Deserializes a stored entry and applies the `onInvalid` policy of the key.
+   * Returns `undefined` when the value must be treated as missing.
+   * */
+  private static async readValue<T extends Persistable>(
+    key: StoreKey<T>,
+    entry: DecodedEntry | null,
+    {
+      onInvalid = key.onInvalid ?? 'null',
+      persist = key.persistMigrated === true,
+    }: { onInvalid?: InvalidValuePolicy; persist?: boolean } = {},
+  ): Promise<T | undefined> {
+    if (entry === null) return undefined
+
+    const result = decodeValue(key, await decryptEntry(key, entry))
+
+    if (!result.valid) {
+      switch (onInvalid) {
+        case 'throw':
+          throw new StrictStoreValidationError(key, result.value, result.issues)
+        case 'remove':
+          await AsyncStrictStore.remove([key])
+          return undefined
+        default:
+          return undefined
+      }
+    }
+
+    if (result.migrated && persist)
+      await AsyncStrictStore.writeValues([[key, result.value, withVersion(key, entry.meta)]])
+
+    return result.value as T
+  }
+
+  /**
+   * Serializes (compresses, encrypts) all values first, then writes them in one transaction and notifies listeners.
+   * */
+  private static async writeValues(
+    writes: readonly [StoreKey<Persistable>, Persistable, EntryMeta][],
+  ): Promise<void> {
+    const serialized = writes.map(([key, value]) => compressValue(key, strictJson.stringify(value)))
+
+    const records: IndexedDbRecord[] = await Promise.all(writes.map(async ([key, , meta], i) => {
+      const cryptoKey = resolveEncryptionKey(key)
+
+      return {
+        storeType: key.storeType,
+        name: getFullName(key.ns, key.name),
+        value: encodeEntry(cryptoKey ? await encryptValue(key, serialized[i], cryptoKey) : serialized[i], meta),
+      }
+    }))
+
+    const previous = await indexedDb.setMany(records)
+
+    emitChanges(records.map((record, i) => ({
+      storeType: record.storeType,
+      name: record.name,
+      newValue: record.value,
+      oldValue: previous[i],
+    })))
+  }
+
+  /**
+   * Collects the raw StrictStore-managed records without deserializing their values.
+   * Expired records are skipped unless `includeExpired` is set.
+   * */
+  private static async scan(
+    ns?: string[],
+    includeExpired = false,
+  ): Promise<{ key: StoreKey<Persistable>; entry: DecodedEntry; expired: boolean }[]> {
+    if (Array.isArray(ns) && ns.length === 0)
+      return []
+
+    const prefixes: readonly string[] =
+      ns && ns.length > 0 ? ns.map(n => `strict-store/${n}:`) : ['strict-store/']
+
+    const found: { key: StoreKey<Persistable>; entry: DecodedEntry; expired: boolean }[] = []
+    const now = Date.now()
+
+    for (const record of await indexedDb.getAll()) {
+      if (!isStoreKey(record.name, prefixes)) continue
+
+      const storeKey = parseStoreKey(record.name, record.storeType)
+      if (!storeKey) continue
+
+      const entry = decodeEntry(record.value)
+      const expired = isExpired(entry.meta, now)
+      if (expired && !includeExpired) continue
+
+      found.push({ key: storeKey, entry, expired })
+    }
+
+    return found
+  }
+
+  /**
+   * Retrieves a value from IndexedDB.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object
+   * @returns The stored value, or the key default (`null` without one) when nothing valid is stored.
+   *
+   * @example
+   * ```ts
+   * const theme: 'light' | 'dark' | null = await AsyncStrictStore.get(themeKey);
+   * ```
+   *
+   * @throws StrictStoreValidationError if the stored value is invalid and the key uses the `'throw'` policy.
+   */
+  static async get<T extends Persistable>(key: StoreKeyWithDefault<T>): Promise<T>;
+  static async get<T extends Persistable>(key: StoreKey<T>): Promise<T | null>;
+  static async get<T extends Persistable>(key: StoreKey<T>): Promise<T | null> {
+    const entry = await AsyncStrictStore.readEntry(key)
+
+    if (entry && shouldSlide(entry.meta)) {
+      await indexedDb.setMany([{
+        storeType: key.storeType,
+        name: getFullName(key.ns, key.name),
+        value: encodeEntry(entry.valueStr, slideEntry(entry.meta)),
+      }])
+    }
+
+    const value = await AsyncStrictStore.readValue(key, entry)
+
+    return value === undefined ? resolveDefault(key) : value
+  }
+
+  /**
+   * Retrieves values for a tuple of keys, preserving the type for each key.
+   * @public
+   *
+   * @typeParam K - A tuple of StoreKey objects with different value types
+   * @param keys - A tuple of StoreKey objects
+   * @returns A tuple of values (or null), corresponding to each key.
+   *   Keys with a default value never produce null.
+   *
+   * @example
+   * ```ts
+   * const [theme, lang] = await AsyncStrictStore.pick([themeKey, langKey]);
+   * ```
+   */
+  static async pick<const K extends readonly StoreKey<Persistable>[]>(
+    keys: K
+  ): Promise<PickResult<K>> {
+    const out = await Promise.all(keys.map(key => AsyncStrictStore.get(key)))
+
+    return out as PickResult<K>
+  }
+
+  /**
+   * Retrieves all StrictStore-managed key-value pairs, optionally filtered by namespaces.
+   * @public
+   *
+   * @param ns - (optional) Namespaces to filter keys
+   * @returns An array of objects, each containing the storage key and its parsed value.
+   *
+   * @example
+   * ```ts
+   * const userItems = await AsyncStrictStore.entries(['user']);
+   * ```
+   *
+   * @remarks
+   * - Invalid and expired values are skipped, outdated ones are upgraded.
+   */
+  static async entries(
+    ns?: string[]
+  ): Promise<{ key: StoreKey<Persistable>, value: Persistable }[]> {
+    const result: { key: StoreKey<Persistable>; value: Persistable }[] = []
+
+    for (const { key, entry } of await AsyncStrictStore.scan(ns)) {
+      const value = await AsyncStrictStore.readValue(resolveKey(key), entry)
+      if (value === undefined) continue
+
+      result.push({ key, value })
+    }
+
+    return result
+  }
+
+  /**
+   * Saves a value to IndexedDB with automatic serialization.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object
+   * @param value - Value to store
+   * @param options - (optional) Write options, see {@link SaveOptions}
+   *
+   * @example
+   * ```ts
+   * await AsyncStrictStore.save(themeKey, 'dark');
+   * ```
+   */
+  static async save<T extends StoreKey<Persistable>>(
+    key: T,
+    value: T['__type'],
+    options: SaveOptions = {},
+  ): Promise<void> {
+    await AsyncStrictStore.writeValues([
+      [key, value, withVersion(key, resolveTtl(options.ttl ?? key.ttl))],
+    ])
+  }
+
+  /**
+   * Saves multiple key-value pairs in a single IndexedDB transaction.
+   * @public
+   *
+   * @param entries - Array of [StoreKey, value] tuples
+   *
+   * @example
+   * ```ts
+   * await AsyncStrictStore.saveBatch([
+   *   [themeKey, 'dark'],
+   *   [langKey, 'en'],
+   * ]);
+   * ```
+   *
+   * @remarks
+   * - All values are serialized before anything is written, and written atomically.
+   */
+  static async saveBatch<
+    Pairs extends readonly [StoreKey<Persistable>, Persistable][]
+  >(
+    entries: Pairs & {
+      [K in keyof Pairs]: Pairs[K] extends [infer Key, unknown]
+        ? Key extends StoreKey<infer T>
+          ? [Key, T]
+          : never
+        : never
+    }
+  ): Promise<void> {
+    await AsyncStrictStore.writeValues(entries.map(([key, value]) =>
+      [key, value, withVersion(key, resolveTtl(key.ttl))] as [StoreKey<Persistable>, Persistable, EntryMeta]
+    ))
+  }
+
+  /**
+   * Merges a partial value into an existing object stored under the specified key.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (must be an object)
+   * @param key - StoreKey object identifying the item to merge into
+   * @param partial - Partial object to merge
+   *
+   * @throws Error if no value exists for the key and the key has no default value.
+   *
+   * @remarks
+   * - Follows the rules of {@link StrictStore.merge}.
+   * */
+  static async merge<T extends Record<string, Persistable>>(
+    key: StoreKey<T>,
+    partial: DeepPartial<T>
+  ): Promise<void> {
+    const entry = await AsyncStrictStore.readEntry(key);
+    const storedValue = await AsyncStrictStore.readValue(key, entry);
+    const current = storedValue === undefined ? resolveDefault(key) : storedValue;
+
+    if (current === null) {
+      throw new Error('AsyncStrictStore.merge: Cannot initialize the object. Use AsyncStrictStore.save for initial value.');
+    }
+
+    if (typeof current !== 'object' || Array.isArray(current)) {
+      throw new Error('AsyncStrictStore.merge: Can only merge into plain objects');
+    }
+
+    const merged = deepMerge(current, partial);
+    const meta = entry && storedValue !== undefined ? entry.meta : resolveTtl(key.ttl);
+    await AsyncStrictStore.writeValues([[key, merged, withVersion(key, meta)]]);
+  }
+
+  /**
+   * Restores the default value of a key by writing it to IndexedDB.
+   * @public
+   *
+   * @param key - StoreKey created with a default value
+   */
+  static async reset<T extends Persistable>(key: StoreKeyWithDefault<T>): Promise<void> {
+    await AsyncStrictStore.save(key, resolveDefault(key) as T);
+  }
+
+  /**
+   * Iterates over all StrictStore-managed key-value pairs and executes a callback for each.
+   * @public
+   *
+   * @param callback - Function to execute for each key-value pair
+   * @param ns - Optional namespaces to filter keys
+   */
+  static async forEach(
+    callback: (
+      key: StoreKey<Persistable>,
+      value: Persistable,
+    ) => void,
+    ns?: string[]
+  ): Promise<void> {
+    (await AsyncStrictStore.entries(ns)).forEach(({ key, value }) => {
+      callback(key, value);
+    });
+  }
+
+  /**
+   * Subscribes to changes made through `AsyncStrictStore`, in this tab and in other tabs.
+   * @public
+   *
+   * @param callback - Function to call when a value changes.
+   *   Receives (key, newValue, oldValue, origin)
+   * @param target - (optional) Array of StoreKey or array of namespaces (string[]) to filter the observed changes.
+   *   If omitted, all strict-store keys are observed.
+   *
+   * @returns Unsubscribe function.
+   *
+   * @remarks
+   * - Changes of other tabs are received through `BroadcastChannel` where it is available.
+   * - Invalid values, and encrypted values that cannot be decrypted, are reported as `null`.
+   * - Changes are reported in the order they were made, including those of encrypted keys.
+   * - An error thrown by the callback does not stop other listeners; it is rethrown asynchronously.
+   */
+  static onChange(
+    callback: (
+      key: StoreKey<Persistable>,
+      newValue: Persistable,
+      oldValue: Persistable,
+      origin: ChangeOrigin,
+    ) => void,
+    target?: StoreKey<Persistable>[] | string[],
+  ): () => void {
+    const { keyNames, nsPrefixes } = resolveTargets(target)
+
+    const read = async (key: StoreKey<Persistable>, raw: string | null): Promise<Persistable> => {
+      if (raw === null) return null
+
+      try {
+        const entry = decodeEntry(raw)
+        if (isExpired(entry.meta)) return null
+
+        const result = decodeValue(key, await decryptEntry(key, entry))
+        return result.valid ? result.value : null
+      } catch {
+        return null
+      }
+    }
+
+    // Decrypting takes a variable time; calls are chained to keep the order of the changes
+    let delivered = Promise.resolve()
+
+    return subscribe((change, origin) => {
+      if (!isStrictStoreEvent(change, keyNames, nsPrefixes)) return
+
+      const storeKey = parseStoreKey(change.name!, change.storeType)
+      if (!storeKey) return
+
+      const resolvedKey = resolveKey(storeKey)
+      const values = Promise.all([
+        read(resolvedKey, change.newValue),
+        read(resolvedKey, change.oldValue),
+      ])
+
+      delivered = delivered.then(async () => {
+        const [newValue, oldValue] = await values
+
+        try {
+          callback(storeKey, newValue, oldValue, origin)
+        } catch (e) {
+          queueMicrotask(() => {
+            throw e
+          })
+        }
+      })
+    })
+  }
+
+  /**
+   * Removes name-value pairs from IndexedDB in a single transaction.
+   * @public
+   *
+   * @param keys - StoreKey objects identifying items to remove
+   *
+   * @remarks
+   * - Silent if a name doesn't exist
+   */
+  static async remove(keys: StoreKey<Persistable>[]): Promise<void> {
+    const rows = keys.map(key => ({ storeType: key.storeType, name: getFullName(key.ns, key.name) }))
+    const previous = await indexedDb.removeMany(rows)
+
+    emitChanges(rows
+      .map((row, i) => ({ ...row, newValue: null, oldValue: previous[i] }))
+      .filter(change => change.oldValue !== null))
+  }
+
+  /**
+   * Checks if names exist in IndexedDB.
+   * @public
+   *
+   * @param key - StoreKey object or array of StoreKey objects
+   * @returns `true`/`false`, or an array of them for an array of keys
+   *
+   * @remarks
+   * - Expired values are removed and reported as missing
+   */
+  static async has(key: StoreKey<Persistable>): Promise<boolean>;
+  static async has(key: StoreKey<Persistable>[]): Promise<boolean[]>;
+  static async has(key: StoreKey<Persistable> | StoreKey<Persistable>[]): Promise<boolean | boolean[]> {
+    if (Array.isArray(key)) {
+      return Promise.all(key.map(async storeKey => (await AsyncStrictStore.readEntry(storeKey)) !== null))
+
+    } else {
+      return (await AsyncStrictStore.readEntry(key)) !== null;
+    }
+  }
+
+  /**
+   * Gets the number of StrictStore-managed items, optionally filtered by namespaces.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to filter by
+   */
+  static async size(ns?: string[]): Promise<number> {
+    return (await AsyncStrictStore.scan(ns)).length;
+  }
+
+  /**
+   * Returns all StoreKey objects stored in IndexedDB, optionally filtered by namespaces.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to filter keys
+   */
+  static async keys(ns?: string[]): Promise<StoreKey<Persistable>[]> {
+    return (await AsyncStrictStore.scan(ns)).map(({ key }) =>
+      key
+    )
+  }
+
+  /**
+   * Clears all StrictStore-managed items, optionally filtered by namespaces.
+   * @public
+   *
+   * @param ns - (optional) Namespaces to clear (empty array = NO-OP)
+   */
+  static async clear(ns?: string[]): Promise<void> {
+    const items = await AsyncStrictStore.scan(ns, true);
+    await AsyncStrictStore.remove(items.map(({ key }) => key));
+  }
+
+  /**
+   * Removes all expired items.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to sweep
+   * @returns Number of removed items.
+   */
+  static async purgeExpired(ns?: string[]): Promise<number> {
+    const expired = (await AsyncStrictStore.scan(ns, true)).filter(item => item.expired);
+    await AsyncStrictStore.remove(expired.map(({ key }) => key));
+
+    return expired.length;
+  }
+
+  /**
+   * Eagerly upgrades all values written with an older schema version and saves them back.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to migrate
+   * @returns Number of upgraded items.
+   */
+  static async migrateAll(ns?: string[]): Promise<number> {
+    let migrated = 0;
+
+    for (const { key, entry } of await AsyncStrictStore.scan(ns)) {
+      const resolvedKey = resolveKey(key);
+      if (!isVersioned(resolvedKey) || (entry.meta.version ?? 0) === keyVersion(resolvedKey))
+        continue;
+
+      if (await AsyncStrictStore.readValue(resolvedKey, entry, { persist: true }) !== undefined)
+        migrated++;
+    }
+
+    return migrated;
+  }
+}
+
+export {
+  AsyncStrictStore,
+}
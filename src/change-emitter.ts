@@ -0,0 +1,62 @@
+/**
+ * Identifies the broadcasts of this JavaScript context, which also reach its own channels.
+ *
+ * @internal
+ */
+export const contextId = Math.random().toString(36).slice(2)
+
+/**
+ * Listeners of the changes of a store.
+ *
+ * @internal
+ */
+export type ChangeEmitter<C, A extends unknown[] = []> = {
+  /**
+   * Calls every listener for each change in turn. A throwing listener does not stop the others
+   * nor the write; its error is rethrown asynchronously.
+   */
+  emit(changes: readonly C[], ...args: A): void;
+  /**
+   * Adds a listener and returns the function removing it.
+   */
+  subscribe(listener: (change: C, ...args: A) => void): () => void;
+  readonly size: number;
+}
+
+/**
+ * Creates a set of change listeners shared by the synchronous and the asynchronous store.
+ *
+ * @internal
+ *
+ * @typeParam C - Change passed to the listeners
+ * @typeParam A - Further arguments passed along with every change
+ */
+export const createChangeEmitter = <C, A extends unknown[] = []>(): ChangeEmitter<C, A> => {
+  const listeners = new Set<(change: C, ...args: A) => void>()
+
+  return {
+    emit(changes, ...args) {
+      for (const change of changes) {
+        listeners.forEach(listener => {
+          try {
+            listener(change, ...args)
+          } catch (e) {
+            queueMicrotask(() => {
+              throw e
+            })
+          }
+        })
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    get size() {
+      return listeners.size
+    },
+  }
+}
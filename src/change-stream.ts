@@ -0,0 +1,91 @@
+import { ChangeObserver, ChangeStream, Persistable, StoreChange } from '@src/types';
+
+/**
+ * `Symbol.observable`, when a polyfill (or RxJS) defines it.
+ */
+const observableSymbol = (): symbol | undefined => (Symbol as unknown as { observable?: symbol }).observable;
+
+/**
+ * Creates a change stream. Every subscription and every iterator starts its own listener
+ * and stops it when it ends.
+ *
+ * @internal
+ *
+ * @param listen - Starts a listener and returns the function stopping it.
+ */
+export const createChangeStream = <T extends Persistable>(
+  listen: (emit: (change: StoreChange<T>) => void) => () => void,
+): ChangeStream<T> => {
+  const stream: ChangeStream<T> = {
+    subscribe(observerOrNext) {
+      const observer: ChangeObserver<T> = typeof observerOrNext === 'function'
+        ? { next: observerOrNext }
+        : observerOrNext;
+
+      let closed = false;
+      const stop = listen(change => {
+        if (!closed) observer.next?.(change);
+      });
+
+      return {
+        unsubscribe() {
+          if (closed) return;
+
+          closed = true;
+          stop();
+        },
+        get closed() {
+          return closed;
+        },
+      };
+    },
+
+    '@@observable'() {
+      return stream;
+    },
+
+    [Symbol.asyncIterator]() {
+      const buffered: StoreChange<T>[] = [];
+      const waiting: ((result: IteratorResult<StoreChange<T>>) => void)[] = [];
+      let done = false;
+
+      const stop = listen(change => {
+        const resolve = waiting.shift();
+
+        if (resolve) resolve({ value: change, done: false });
+        else buffered.push(change);
+      });
+
+      const finish = (): Promise<IteratorResult<StoreChange<T>>> => {
+        if (!done) {
+          done = true;
+          stop();
+          buffered.length = 0;
+          waiting.splice(0).forEach(resolve => resolve({ value: undefined, done: true }));
+        }
+
+        return Promise.resolve({ value: undefined, done: true });
+      };
+
+      return {
+        next() {
+          if (buffered.length > 0) return Promise.resolve({ value: buffered.shift()!, done: false });
+          if (done) return finish();
+
+          return new Promise(resolve => waiting.push(resolve));
+        },
+        return: finish,
+        [Symbol.asyncIterator]() {
+          return this;
+        },
+      };
+    },
+  };
+
+  // RxJS `from` looks for `Symbol.observable` first, then for '@@observable'
+  const symbol = observableSymbol();
+  if (symbol)
+    Object.defineProperty(stream, symbol, { value: () => stream });
+
+  return stream;
+};
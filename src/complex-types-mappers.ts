@@ -1,4 +1,4 @@
-import { Persistable } from '@src/types';
+import { CustomTypeDefinition, Persistable } from '@src/types';
 import { ComplexTypeData, TypedArray } from '@src/internal-types';
 
 /**
@@ -49,6 +49,67 @@ const TypedArrayMapper = (value: TypedArray): ComplexTypeData => {
   };
 };
 
+/**
+ * Converts a Date value to ComplexTypeData.
+ *
+ * @param value - The Date value to convert.
+ * @returns ComplexTypeData object representing the Date value.
+ */
+const DateMapper = (value: Date): ComplexTypeData => ({
+  __type: 'date',
+  value: isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString(),
+});
+
+/**
+ * Converts a RegExp value to ComplexTypeData.
+ *
+ * @param value - The RegExp value to convert.
+ * @returns ComplexTypeData object representing the RegExp value.
+ */
+const RegExpMapper = (value: RegExp): ComplexTypeData => ({
+  __type: 'regexp',
+  value: value.source,
+  subtype: value.flags,
+});
+
+/**
+ * Converts a URL value to ComplexTypeData.
+ *
+ * @param value - The URL value to convert.
+ * @returns ComplexTypeData object representing the URL value.
+ */
+const URLMapper = (value: URL): ComplexTypeData => ({
+  __type: 'url',
+  value: value.href,
+});
+
+/**
+ * Converts a number that JSON cannot represent (`NaN`, `Infinity`, `-Infinity`, `-0`) to ComplexTypeData.
+ *
+ * @param value - The number value to convert.
+ * @returns ComplexTypeData object representing the number value.
+ */
+const SpecialNumberMapper = (value: number): ComplexTypeData => ({
+  __type: 'number',
+  value: Object.is(value, -0) ? '-0' : String(value),
+});
+
+/**
+ * Converts a value of a registered custom type to ComplexTypeData.
+ *
+ * @param value - The value to convert.
+ * @param definition - The registered definition that accepted the value.
+ * @returns ComplexTypeData object representing the custom value.
+ */
+const CustomMapper = (
+  value: unknown,
+  definition: CustomTypeDefinition<unknown, Persistable>,
+): ComplexTypeData => ({
+  __type: 'custom',
+  value: definition.serialize(value),
+  subtype: definition.name,
+});
+
 /**
  * Processes a TypedArray value and converts it to an array of Persistable.
  *
@@ -70,4 +131,12 @@ export const complexTypeMappers = {
   map: (val: Map<Persistable, Persistable>) => MapMapper(val),
   set: (val: Set<Persistable>) => SetMapper(val),
   typedArray: (val: TypedArray) => TypedArrayMapper(val),
+  date: (val: Date) => DateMapper(val),
+  regexp: (val: RegExp) => RegExpMapper(val),
+  url: (val: URL) => URLMapper(val),
+  number: (val: number) => SpecialNumberMapper(val),
+  custom: (
+    val: unknown,
+    definition: CustomTypeDefinition<unknown, Persistable>,
+  ) => CustomMapper(val, definition),
 }
@@ -0,0 +1,44 @@
+import { compressToUTF16, decompressFromUTF16 } from 'lz-string';
+import { Persistable, StoreKey } from '@src/types';
+
+/**
+ * Prefix of compressed values. JSON text never starts with `~`, so compressed
+ * and uncompressed values can be told apart and coexist.
+ */
+const COMPRESSED_PREFIX = '~lz:'
+
+const DEFAULT_THRESHOLD = 1024
+
+/**
+ * Compresses a serialized value when the key enables compression and the value reaches the threshold.
+ *
+ * @internal
+ *
+ * @param key - Key the value is written under (with its options).
+ * @param valueStr - `strictJson` output.
+ * @returns The marked compressed value, or `valueStr` unchanged.
+ */
+export const compressValue = (key: StoreKey<Persistable>, valueStr: string): string => {
+  if (!key.compress) return valueStr
+
+  const threshold = key.compress === true
+    ? DEFAULT_THRESHOLD
+    : key.compress.threshold ?? DEFAULT_THRESHOLD
+
+  if (valueStr.length < threshold) return valueStr
+
+  const compressed = COMPRESSED_PREFIX + compressToUTF16(valueStr)
+
+  return compressed.length < valueStr.length ? compressed : valueStr
+}
+
+/**
+ * Restores a value written by {@link compressValue}. Uncompressed values are returned unchanged.
+ *
+ * @internal
+ */
+export const decompressValue = (valueStr: string): string => {
+  if (!valueStr.startsWith(COMPRESSED_PREFIX)) return valueStr
+
+  return decompressFromUTF16(valueStr.slice(COMPRESSED_PREFIX.length)) ?? valueStr
+}
@@ -0,0 +1,51 @@
+import { strictJson } from '@src/strict-json';
+import { DecodedEntry } from '@src/entry';
+import { decompressValue } from '@src/compression';
+import { isVersioned, keyVersion, migrateValue } from '@src/migration';
+import { validateValue, ValidationResult } from '@src/validation';
+import { Persistable, Serializer, StoreKey, ValidationIssue } from '@src/types';
+
+export type DecodeResult =
+  | { valid: true; value: Persistable; migrated: boolean }
+  | { valid: false; value: Persistable; issues: readonly ValidationIssue[] };
+
+/**
+ * Deserializes a stored entry, upgrades it to the key version and runs the key validator on it.
+ * Has no side effects: applying the `onInvalid` policy and persisting upgrades is up to the caller.
+ *
+ * @internal
+ *
+ * @param key - Key the entry belongs to (with its options).
+ * @param entry - Decoded stored entry.
+ * @param serializer - Serializer the value was written with.
+ * @returns The final value and whether it was migrated, or the parsed value with the issues found.
+ *   A value the serializer cannot parse (malformed text, unregistered custom type) is invalid,
+ *   with the stored text as its value.
+ */
+export const decodeValue = (
+  key: StoreKey<Persistable>,
+  entry: DecodedEntry,
+  serializer: Serializer = strictJson,
+): DecodeResult => {
+  const text = decompressValue(entry.valueStr)
+
+  let value: Persistable
+  try {
+    value = serializer.parse(text)
+  } catch (e) {
+    return { valid: false, value: text, issues: [{ message: e instanceof Error ? e.message : String(e) }] }
+  }
+  const storedVersion = entry.meta.version ?? 0
+  const migrated = isVersioned(key) && storedVersion !== keyVersion(key)
+
+  let result: ValidationResult<Persistable> = migrated
+    ? migrateValue(key, value, storedVersion)
+    : { valid: true, value }
+
+  if (result.valid && key.validate)
+    result = validateValue(key.validate, result.value)
+
+  return result.valid
+    ? { valid: true, value: result.value, migrated }
+    : { valid: false, value, issues: result.issues }
+}
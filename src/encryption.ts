@@ -0,0 +1,149 @@
+import { DecodedEntry } from '@src/entry';
+import { getFullName } from '@src/utils';
+import { Persistable, StoreKey } from '@src/types';
+
+const namespaceKeys = new Map<string, CryptoKey>()
+
+const ENCRYPTED_PREFIX = '{"__type":"encrypted",'
+const IV_LENGTH = 12
+
+const subtle = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle)
+    throw new Error('StrictStore: crypto.subtle is not available in this environment.')
+
+  return crypto.subtle
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++)
+    binary += String.fromCharCode(bytes[i])
+
+  return btoa(binary)
+}
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++)
+    bytes[i] = binary.charCodeAt(i)
+
+  return bytes
+}
+
+/**
+ * Returns the encryption key of a StoreKey: its own `encryption` option, or the key registered for its namespace.
+ *
+ * @internal
+ */
+export const resolveEncryptionKey = (key: StoreKey<Persistable>): CryptoKey | undefined => {
+  return key.encryption ?? namespaceKeys.get(key.ns)
+}
+
+/**
+ * Checks whether a serialized value was produced by {@link encryptValue}.
+ *
+ * @internal
+ */
+export const isEncrypted = (valueStr: string): boolean => {
+  return valueStr.startsWith(ENCRYPTED_PREFIX)
+}
+
+/**
+ * Encrypts a serialized value with AES-GCM.
+ * The full storage name is authenticated too, so a value cannot be moved to another key.
+ *
+ * @internal
+ *
+ * @returns `{"__type":"encrypted","iv":…,"data":…}` with base64 encoded IV and ciphertext.
+ */
+export const encryptValue = async (
+  key: StoreKey<Persistable>,
+  valueStr: string,
+  cryptoKey: CryptoKey,
+  fullName = getFullName(key.ns, key.name),
+): Promise<string> => {
+  const encoder = new TextEncoder()
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const data = await subtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(fullName) },
+    cryptoKey,
+    encoder.encode(valueStr),
+  )
+
+  return JSON.stringify({ __type: 'encrypted', iv: toBase64(iv), data: toBase64(new Uint8Array(data)) })
+}
+
+/**
+ * Decrypts the value of an entry written by {@link encryptValue}. Unencrypted entries are returned unchanged.
+ *
+ * @internal
+ *
+ * @throws Error if the key has no encryption key, or the value cannot be decrypted with it.
+ */
+export const decryptEntry = async (
+  key: StoreKey<Persistable>,
+  entry: DecodedEntry,
+  fullName = getFullName(key.ns, key.name),
+): Promise<DecodedEntry> => {
+  if (!isEncrypted(entry.valueStr)) return entry
+
+  const cryptoKey = resolveEncryptionKey(key)
+  if (!cryptoKey)
+    throw new Error(`StrictStore: The value stored under "${fullName}" is encrypted, but the key has no encryption key.`)
+
+  const { iv, data } = JSON.parse(entry.valueStr) as { iv: string; data: string }
+
+  let plain: ArrayBuffer
+  try {
+    plain = await subtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(fullName) },
+      cryptoKey,
+      fromBase64(data),
+    )
+  } catch {
+    throw new Error(`StrictStore: Cannot decrypt the value stored under "${fullName}".`)
+  }
+
+  return { valueStr: new TextDecoder().decode(plain), meta: entry.meta }
+}
+
+/**
+ * Encrypts all values of a namespace with the given key.
+ * @public
+ *
+ * @param ns - Namespace whose values are encrypted
+ * @param cryptoKey - AES-GCM `CryptoKey` supplied by the application
+ * @returns Function that removes the registration.
+ *
+ * @example
+ * ```ts
+ * const cryptoKey = await crypto.subtle.generateKey(
+ *   { name: 'AES-GCM', length: 256 },
+ *   false,
+ *   ['encrypt', 'decrypt'],
+ * );
+ *
+ * registerEncryption('secrets', cryptoKey);
+ *
+ * const tokenKey = createKey<string>('secrets', 'token');
+ * await StrictStore.saveAsync(tokenKey, 'abc');
+ * ```
+ *
+ * @throws Error if the namespace already has an encryption key.
+ *
+ * @remarks
+ * - A key created with its own `encryption` option uses that one instead.
+ * - Metadata (expiration, version) is not encrypted; only the value is.
+ */
+export const registerEncryption = (ns: string, cryptoKey: CryptoKey): () => void => {
+  if (namespaceKeys.has(ns))
+    throw new Error(`registerEncryption: The namespace "${ns}" already has an encryption key.`)
+
+  namespaceKeys.set(ns, cryptoKey)
+
+  return () => {
+    if (namespaceKeys.get(ns) === cryptoKey)
+      namespaceKeys.delete(ns)
+  }
+}
@@ -0,0 +1,115 @@
+import { Ttl } from '@src/types';
+
+/**
+ * Metadata stored next to a value.
+ *
+ * Must stay a flat object of numbers: {@link decodeEntry} locates its end
+ * without parsing the (possibly large) value.
+ *
+ * @param expiresAt - Timestamp (ms) after which the value is treated as missing
+ * @param sliding - Lifetime (ms) restarted on every read
+ * @param version - Schema version of the value
+ */
+export type EntryMeta = {
+  readonly expiresAt?: number;
+  readonly sliding?: number;
+  readonly version?: number;
+}
+
+/**
+ * A stored string split into its metadata and the `strictJson` value.
+ */
+export type DecodedEntry = {
+  readonly valueStr: string;
+  readonly meta: EntryMeta;
+}
+
+const ENTRY_PREFIX = '{"__type":"entry","meta":'
+const VALUE_SEPARATOR = ',"value":'
+
+/**
+ * Combines a serialized value and its metadata into the string written to storage.
+ * Values without metadata are stored as is, so plain entries keep the `strictJson` format.
+ *
+ * @internal
+ *
+ * @param valueStr - Output of `strictJson.stringify`.
+ * @param meta - Metadata of the entry.
+ * @returns `{"__type":"entry","meta":{...},"value":<valueStr>}` or `valueStr` when there is no metadata.
+ */
+export const encodeEntry = (valueStr: string, meta: EntryMeta): string => {
+  if (Object.keys(meta).length === 0) return valueStr
+
+  return `${ENTRY_PREFIX}${JSON.stringify(meta)}${VALUE_SEPARATOR}${valueStr}}`
+}
+
+/**
+ * Splits a stored string into metadata and the `strictJson` value.
+ *
+ * @internal
+ *
+ * @param raw - String read from storage.
+ * @returns The value string and its metadata (empty for plain entries).
+ */
+export const decodeEntry = (raw: string): DecodedEntry => {
+  if (!raw.startsWith(ENTRY_PREFIX)) return { valueStr: raw, meta: {} }
+
+  const metaEnd = raw.indexOf('}', ENTRY_PREFIX.length) + 1
+  if (metaEnd === 0 || !raw.startsWith(VALUE_SEPARATOR, metaEnd))
+    return { valueStr: raw, meta: {} }
+
+  try {
+    return {
+      valueStr: raw.slice(metaEnd + VALUE_SEPARATOR.length, -1),
+      meta: JSON.parse(raw.slice(ENTRY_PREFIX.length, metaEnd)),
+    }
+  } catch {
+    return { valueStr: raw, meta: {} }
+  }
+}
+
+/**
+ * Converts a {@link Ttl} into entry metadata.
+ *
+ * @internal
+ *
+ * @param ttl - Expiration given to `createKey` or `save`.
+ * @param now - Current timestamp.
+ */
+export const resolveTtl = (ttl: Ttl | undefined, now = Date.now()): EntryMeta => {
+  if (ttl === undefined) return {}
+  if (typeof ttl === 'number') return { expiresAt: now + ttl }
+  if ('expiresAt' in ttl) return { expiresAt: +ttl.expiresAt }
+
+  return ttl.sliding
+    ? { expiresAt: now + ttl.ms, sliding: ttl.ms }
+    : { expiresAt: now + ttl.ms }
+}
+
+/**
+ * @internal
+ */
+export const isExpired = (meta: EntryMeta, now = Date.now()): boolean => {
+  return meta.expiresAt !== undefined && meta.expiresAt <= now
+}
+
+/**
+ * Whether a read restarts the sliding lifetime: only once less than half of it remains,
+ * so that frequent reads do not rewrite the entry (and notify other tabs) every time.
+ *
+ * @internal
+ */
+export const shouldSlide = (meta: EntryMeta, now = Date.now()): boolean => {
+  return meta.sliding !== undefined && (meta.expiresAt ?? now) - now < meta.sliding / 2
+}
+
+/**
+ * Returns the metadata with the sliding lifetime restarted from `now`.
+ *
+ * @internal
+ */
+export const slideEntry = (meta: EntryMeta, now = Date.now()): EntryMeta => {
+  return meta.sliding === undefined
+    ? meta
+    : { ...meta, expiresAt: now + meta.sliding }
+}
@@ -0,0 +1,64 @@
+import { Persistable, StoreKey, ValidationIssue } from '@src/types';
+import { getFullName } from '@src/utils';
+
+/**
+ * Thrown when a stored value fails the validator of its key
+ * and the key uses the `'throw'` policy.
+ * @public
+ *
+ * @example
+ * ```ts
+ * try {
+ *   StrictStore.get(userKey);
+ * } catch (e) {
+ *   if (e instanceof StrictStoreValidationError) {
+ *     console.warn(e.key.name, e.issues);
+ *   }
+ * }
+ * ```
+ */
+export class StrictStoreValidationError extends Error {
+  /**
+   * @param fullName - Storage name of the value (defaults to the name in `StrictStore`)
+   */
+  constructor(
+    readonly key: StoreKey<Persistable>,
+    readonly value: unknown,
+    readonly issues: readonly ValidationIssue[],
+    fullName = getFullName(key.ns, key.name),
+  ) {
+    super(`StrictStore: Invalid value stored under "${fullName}".`)
+    this.name = 'StrictStoreValidationError'
+  }
+}
+
+/**
+ * Thrown when a value does not fit into the remaining storage quota
+ * and no more entries can be evicted to make room for it.
+ * @public
+ *
+ * @example
+ * ```ts
+ * try {
+ *   StrictStore.save(cacheKey, response);
+ * } catch (e) {
+ *   if (e instanceof StrictStoreQuotaError) {
+ *     console.warn(`${e.key.name} needs ${e.size} bytes`);
+ *   }
+ * }
+ * ```
+ */
+export class StrictStoreQuotaError extends Error {
+  /**
+   * @param fullName - Storage name of the value (defaults to the name in `StrictStore`)
+   */
+  constructor(
+    readonly key: StoreKey<Persistable>,
+    readonly size: number,
+    readonly cause?: unknown,
+    fullName = getFullName(key.ns, key.name),
+  ) {
+    super(`StrictStore: Not enough storage space to save "${fullName}" (${size} bytes).`)
+    this.name = 'StrictStoreQuotaError'
+  }
+}
@@ -0,0 +1,173 @@
+import { DEFAULT_PREFIX, KEY_PATTERN } from '@src/utils';
+import { StorageAdapter, StorageChange } from '@src/types';
+
+const evictableNamespaces = new Set<string>()
+
+/**
+ * Storage name of the access time index of a store prefix. It does not match the `<prefix>/` names
+ * of the items, so it never shows up in `entries`, `keys` or `clear`.
+ */
+const accessIndex = (prefix: string): string => `${prefix}:access`
+
+/**
+ * Access times closer than this are not rewritten, so most reads leave the index alone;
+ * eviction does not need a finer order.
+ */
+const TOUCH_INTERVAL = 60_000
+
+type ParsedIndex = {
+  readonly raw: string;
+  readonly index: Readonly<Record<string, number>>;
+}
+
+// Last index read or written per storage and prefix, reused while the stored string is unchanged
+const parsedIndexes = new WeakMap<StorageAdapter, Map<string, ParsedIndex>>()
+
+const readIndex = (storage: StorageAdapter, prefix: string): Readonly<Record<string, number>> => {
+  const raw = storage.get(accessIndex(prefix))
+  if (raw === null) return {}
+
+  const parsed = parsedIndexes.get(storage)?.get(prefix)
+  if (parsed?.raw === raw) return parsed.index
+
+  try {
+    const index = JSON.parse(raw)
+    cacheIndex(storage, prefix, { raw, index })
+    return index
+  } catch {
+    return {}
+  }
+}
+
+const writeIndex = (storage: StorageAdapter, prefix: string, index: Record<string, number>): void => {
+  const raw = JSON.stringify(index)
+
+  try {
+    storage.set(accessIndex(prefix), raw)
+    cacheIndex(storage, prefix, { raw, index })
+  } catch {
+    // The index is best effort: without it, entries are evicted in storage order
+  }
+}
+
+const cacheIndex = (storage: StorageAdapter, prefix: string, parsed: ParsedIndex): void => {
+  const byPrefix = parsedIndexes.get(storage) ?? new Map<string, ParsedIndex>()
+  byPrefix.set(prefix, parsed)
+  parsedIndexes.set(storage, byPrefix)
+}
+
+/**
+ * Checks whether an error thrown by a storage write means the quota is exceeded.
+ *
+ * @internal
+ */
+export const isQuotaExceeded = (e: unknown): boolean => {
+  if (typeof e !== 'object' || e === null) return false
+
+  const { name, code } = e as { name?: string; code?: number }
+
+  return name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+}
+
+/**
+ * Checks whether entries of a namespace may be evicted.
+ *
+ * @internal
+ */
+export const isEvictable = (ns: string): boolean => {
+  return evictableNamespaces.has(ns)
+}
+
+/**
+ * Records the access time of an entry of an evictable namespace,
+ * unless it was recorded less than a minute ago.
+ *
+ * @internal
+ *
+ * @param prefix - Prefix of the store the entry belongs to; every store has its own index.
+ */
+export const touchEntry = (
+  storage: StorageAdapter,
+  ns: string,
+  fullName: string,
+  prefix = DEFAULT_PREFIX,
+): void => {
+  if (!isEvictable(ns)) return
+
+  const now = Date.now()
+  const index = readIndex(storage, prefix)
+  if (now - (index[fullName] ?? -Infinity) < TOUCH_INTERVAL) return
+
+  writeIndex(storage, prefix, { ...index, [fullName]: now })
+}
+
+/**
+ * Removes the least recently used entry of the evictable namespaces from a storage.
+ *
+ * @internal
+ *
+ * @param storage - Storage to free space in
+ * @param keep - Storage names that must not be evicted
+ * @param prefix - Prefix of the store; entries of other stores are never evicted
+ * @returns The removal, or `null` when there was nothing left to evict.
+ */
+export const evictLeastRecentlyUsed = (
+  storage: StorageAdapter,
+  keep: ReadonlySet<string>,
+  prefix = DEFAULT_PREFIX,
+): StorageChange | null => {
+  const index = readIndex(storage, prefix)
+  let oldest: string | null = null
+
+  for (const name of storage.keys()) {
+    const m = KEY_PATTERN.exec(name)
+    if (!m || m[1] !== prefix || !isEvictable(m[2]) || keep.has(name)) continue
+
+    if (oldest === null || (index[name] ?? 0) < (index[oldest] ?? 0))
+      oldest = name
+  }
+
+  if (oldest === null) return null
+
+  const oldValue = storage.get(oldest)
+  storage.remove(oldest)
+
+  const existing = new Set(storage.keys())
+  const remaining: Record<string, number> = {}
+  for (const [name, time] of Object.entries(index))
+    if (existing.has(name)) remaining[name] = time
+
+  writeIndex(storage, prefix, remaining)
+
+  return { name: oldest, newValue: null, oldValue }
+}
+
+/**
+ * Marks a namespace whose entries may be evicted, least recently used first,
+ * when a write with the `'evict'` quota policy does not fit.
+ * @public
+ *
+ * @param ns - Namespace holding disposable data (caches, drafts)
+ * @returns Function that removes the mark.
+ *
+ * @example
+ * ```ts
+ * registerEvictable('api-cache');
+ *
+ * StrictStore.save(reportKey, report, { quota: 'evict' });
+ * ```
+ *
+ * @remarks
+ * - Reads and writes of evictable entries record their access time in storage,
+ *   at most once a minute per entry.
+ */
+export const registerEvictable = (ns: string): () => void => {
+  evictableNamespaces.add(ns)
+
+  return () => {
+    evictableNamespaces.delete(ns)
+  }
+}
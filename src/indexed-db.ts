@@ -0,0 +1,107 @@
+import { StoreType } from '@src/types';
+
+/**
+ * A row of the IndexedDB object store used by {@link AsyncStrictStore}.
+ *
+ * @param storeType - Storage type of the key; part of the row identity
+ * @param name - Full storage name (`strict-store/{ns}:{name}`)
+ * @param value - Encoded entry, in the same format as in Web Storage
+ */
+export type IndexedDbRecord = {
+  storeType: StoreType;
+  name: string;
+  value: string;
+}
+
+const DB_NAME = 'strict-store'
+const DB_VERSION = 1
+const STORE_NAME = 'entries'
+
+let database: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (database) return database
+
+  if (typeof indexedDB === 'undefined')
+    return Promise.reject(new Error('StrictStore: indexedDB is not available in this environment.'))
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: ['storeType', 'name'] })
+  }
+
+  database = promisify(request)
+  database.catch(() => {
+    database = null
+  })
+
+  return database
+}
+
+/**
+ * Runs `operation` in a single transaction and resolves once the transaction is committed.
+ */
+const transaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDatabase()
+  const tx = db.transaction(STORE_NAME, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('StrictStore: IndexedDB transaction aborted.'))
+  })
+
+  const result = await operation(tx.objectStore(STORE_NAME))
+  await done
+
+  return result
+}
+
+/**
+ * Minimal promise-based access to the StrictStore IndexedDB database.
+ *
+ * @internal
+ */
+export const indexedDb = {
+  get(storeType: StoreType, name: string): Promise<string | null> {
+    return transaction('readonly', async store => {
+      const record = await promisify<IndexedDbRecord | undefined>(store.get([storeType, name]))
+      return record ? record.value : null
+    })
+  },
+
+  getAll(): Promise<IndexedDbRecord[]> {
+    return transaction('readonly', store => promisify<IndexedDbRecord[]>(store.getAll()))
+  },
+
+  /**
+   * Writes all records atomically and returns the values they replaced.
+   */
+  setMany(records: readonly IndexedDbRecord[]): Promise<(string | null)[]> {
+    return transaction('readwrite', store => Promise.all(records.map(async record => {
+      const previous = await promisify<IndexedDbRecord | undefined>(store.get([record.storeType, record.name]))
+      store.put(record)
+      return previous ? previous.value : null
+    })))
+  },
+
+  /**
+   * Removes all rows atomically and returns the values they held.
+   */
+  removeMany(rows: readonly Pick<IndexedDbRecord, 'storeType' | 'name'>[]): Promise<(string | null)[]> {
+    return transaction('readwrite', store => Promise.all(rows.map(async row => {
+      const previous = await promisify<IndexedDbRecord | undefined>(store.get([row.storeType, row.name]))
+      store.delete([row.storeType, row.name])
+      return previous ? previous.value : null
+    })))
+  },
+}
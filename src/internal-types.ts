@@ -1,4 +1,4 @@
-import { Persistable } from '@src/types';
+import { Persistable, Serializer, StorageAdapter, StoreKey, StoreKeyWithDefault, StoreType } from '@src/types';
 
 export type TypedArray =
   | Int8Array
@@ -51,10 +51,40 @@ export type DeepPartial<T> = {
     : T[P];
 };
 
-export type ComplexTypeNames = 'bigint' |'set' | 'map' |'typedArray';
+/**
+ * Maps a tuple of keys to the tuple of values returned by `StrictStore.pick`.
+ * Keys with a default value resolve to `T`, all others to `T | null`.
+ */
+export type PickResult<K extends readonly StoreKey<Persistable>[]> = {
+  [I in keyof K]: K[I] extends StoreKeyWithDefault<infer T>
+    ? T
+    : K[I] extends StoreKey<infer T>
+      ? T | null
+      : never
+};
+
+export type ComplexTypeNames =
+  | 'bigint'
+  | 'set'
+  | 'map'
+  | 'typedArray'
+  | 'date'
+  | 'regexp'
+  | 'url'
+  | 'number'
+  | 'custom';
 
 export type ComplexTypeData = {
   __type: ComplexTypeNames,
   value: Persistable,
   subtype?: string,
 }
+
+/**
+ * Resolved settings of a store, see `StrictStoreOptions`.
+ */
+export type StoreConfig = {
+  readonly prefix: string;
+  readonly storages: Partial<Record<StoreType, StorageAdapter>>;
+  readonly serializer: Serializer;
+};
@@ -0,0 +1,27 @@
+import { Persistable, StoreKey, StoreType } from '@src/types';
+import { getFullName } from '@src/utils';
+
+const registry = new Map<string, StoreKey<Persistable>>()
+
+const keyId = (ns: string, name: string, storeType: StoreType): string => {
+  return `${storeType}|${getFullName(ns, name)}`
+}
+
+/**
+ * Remembers a key created with options, so operations that only see raw storage
+ * names (`entries`, `onChange`) can apply them.
+ *
+ * @internal
+ */
+export const registerKey = (key: StoreKey<Persistable>): void => {
+  registry.set(keyId(key.ns, key.name, key.storeType), key)
+}
+
+/**
+ * Returns the registered key with the same identity, or the key itself.
+ *
+ * @internal
+ */
+export const resolveKey = <T extends Persistable>(key: StoreKey<T>): StoreKey<T> => {
+  return (registry.get(keyId(key.ns, key.name, key.storeType)) as StoreKey<T> | undefined) ?? key
+}
@@ -0,0 +1,37 @@
+import { createChangeEmitter } from '@src/change-emitter';
+import { ChangeOrigin, StorageAdapter, StorageChange, StoreType } from '@src/types';
+
+/**
+ * Change made by StrictStore in the current JavaScript context.
+ * Changes received from other tabs through `StrictStore.syncTabs` are `'remote'`.
+ *
+ * @internal
+ */
+export type LocalChange = StorageChange & {
+  readonly storeType: StoreType;
+  readonly storage: StorageAdapter;
+  readonly origin?: ChangeOrigin;
+}
+
+const listeners = createChangeEmitter<LocalChange>()
+
+/**
+ * Notifies same-tab listeners. A throwing listener does not stop the others nor the write;
+ * its error is rethrown asynchronously.
+ *
+ * @internal
+ */
+export const emitLocalChanges = (changes: readonly LocalChange[]): void => {
+  listeners.emit(changes)
+}
+
+/**
+ * Subscribes to changes made by StrictStore in the current JavaScript context.
+ *
+ * @internal
+ *
+ * @returns Unsubscribe function.
+ */
+export const subscribeLocalChanges = (listener: (change: LocalChange) => void): () => void => {
+  return listeners.subscribe(listener)
+}
@@ -0,0 +1,65 @@
+import { Persistable, StoreKey } from '@src/types';
+import { ValidationResult } from '@src/validation';
+import { EntryMeta } from '@src/entry';
+
+/**
+ * Returns the schema version of a key: the explicit `version`, or the number of migrations.
+ *
+ * @internal
+ */
+export const keyVersion = (key: StoreKey<Persistable>): number => {
+  return key.version ?? key.migrations?.length ?? 0
+}
+
+/**
+ * Upgrades a value stored with an older schema version to the current version of the key.
+ *
+ * @internal
+ *
+ * @param key - Key with `version` and `migrations`.
+ * @param value - Deserialized stored value.
+ * @param storedVersion - Version persisted next to the value (`0` when absent).
+ * @returns The upgraded value, or issues if the value cannot be upgraded.
+ */
+export const migrateValue = (
+  key: StoreKey<Persistable>,
+  value: unknown,
+  storedVersion: number,
+): ValidationResult<Persistable> => {
+  const version = keyVersion(key)
+  const migrations = key.migrations ?? []
+  const firstVersion = version - migrations.length
+
+  if (storedVersion > version)
+    return { valid: false, issues: [{ message: `Stored version ${storedVersion} is newer than ${version}` }] }
+  else if (storedVersion < firstVersion)
+    return { valid: false, issues: [{ message: `No migration from version ${storedVersion}` }] }
+
+  let current = value as Persistable
+  try {
+    for (let v = storedVersion; v < version; v++)
+      current = migrations[v - firstVersion](current as never)
+  } catch (e) {
+    return { valid: false, issues: [{ message: `Migration from version ${storedVersion} failed: ${e}` }] }
+  }
+
+  return { valid: true, value: current }
+}
+
+/**
+ * Returns `true` if the key declares a schema version or migrations.
+ *
+ * @internal
+ */
+export const isVersioned = (key: StoreKey<Persistable>): boolean => {
+  return key.version !== undefined || key.migrations !== undefined
+}
+
+/**
+ * Adds the current schema version of a versioned key to the metadata of a written value.
+ *
+ * @internal
+ */
+export const withVersion = (key: StoreKey<Persistable>, meta: EntryMeta): EntryMeta => {
+  return isVersioned(key) ? { ...meta, version: keyVersion(key) } : meta
+}
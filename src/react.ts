@@ -0,0 +1,164 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { isEqual } from 'lodash';
+import { StrictStore } from '@src/strict-store';
+import { resolveDefault } from '@src/utils';
+import { BindableStore, Persistable, StoreKey, StoreKeyWithDefault } from '@src/types';
+import { PickResult } from '@src/internal-types';
+
+/**
+ * Options of the React hooks.
+ * @public
+ *
+ * @param store - Store to read from and write to (defaults to `StrictStore`),
+ *   e.g. one made by `createStrictStore`
+ */
+export type StoreHookOptions = {
+  readonly store?: BindableStore;
+};
+
+/**
+ * Writes a new value, or the result of an update of the current one; `null` removes the value.
+ * @public
+ *
+ * @typeParam T - Type of the stored value
+ * @typeParam P - Type of the current value passed to an updater: `T` for keys with a default, `T | null` otherwise
+ */
+export type SetStoreValue<T extends Persistable, P = T> = (value: T | null | ((prev: P) => T | null)) => void;
+
+/**
+ * Source of a `useSyncExternalStore` hook. The snapshot is cached until a change is reported
+ * and keeps its reference while the value stays deeply equal.
+ */
+type Source<S> = {
+  subscribe: (onStoreChange: () => void) => () => void;
+  getSnapshot: () => S;
+  getServerSnapshot: () => S;
+};
+
+const keyId = (key: StoreKey<Persistable>): string => `${key.storeType}|${key.ns}:${key.name}`;
+
+const createSource = <S>(
+  read: () => S,
+  readServer: () => S,
+  listen: (onChange: () => void) => () => void,
+): Source<S> => {
+  let snapshot: { value: S } | null = null;
+  let stale = true;
+  let serverSnapshot: { value: S } | null = null;
+
+  return {
+    subscribe: onStoreChange => {
+      // The value may have changed between the render and the subscription
+      stale = true;
+
+      return listen(() => {
+        stale = true;
+        onStoreChange();
+      });
+    },
+    getSnapshot: () => {
+      if (stale) {
+        const value = read();
+        snapshot = snapshot !== null && isEqual(snapshot.value, value) ? snapshot : { value };
+        stale = false;
+      }
+
+      return snapshot!.value;
+    },
+    getServerSnapshot: () => {
+      serverSnapshot ??= { value: readServer() };
+
+      return serverSnapshot.value;
+    },
+  };
+};
+
+/**
+ * Reads a key and keeps the component in sync with it.
+ * @public
+ *
+ * @typeParam T - Type of the stored value (inferred from StoreKey)
+ * @param key - StoreKey object to read
+ * @param options - (optional) `store`: store to use instead of `StrictStore`
+ * @returns The current value (the key default, or `null`, when nothing is stored) and a setter.
+ *
+ * @example
+ * ```tsx
+ * const themeKey = createKey<'light' | 'dark'>('app', 'theme', 'local', { default: 'light' });
+ *
+ * function ThemeToggle() {
+ *   const [theme, setTheme] = useStoreValue(themeKey);
+ *
+ *   return <button onClick={() => setTheme(prev => prev === 'light' ? 'dark' : 'light')}>{theme}</button>;
+ * }
+ * ```
+ *
+ * @remarks
+ * - The key may be created during the render; it is compared by its name and storage type
+ * - Re-renders on changes made in this tab (by any component or plain `StrictStore` call) and in other tabs
+ * - The value is read once per change and keeps its reference while it stays deeply equal
+ * - During server rendering the key default (or `null`) is returned
+ */
+export function useStoreValue<T extends Persistable>(
+  key: StoreKeyWithDefault<T>,
+  options?: StoreHookOptions,
+): [T, SetStoreValue<T>];
+export function useStoreValue<T extends Persistable>(
+  key: StoreKey<T>,
+  options?: StoreHookOptions,
+): [T | null, SetStoreValue<T, T | null>];
+export function useStoreValue<T extends Persistable>(
+  key: StoreKey<T>,
+  { store = StrictStore }: StoreHookOptions = {},
+): [T | null, SetStoreValue<T, T | null>] {
+  const source = useMemo(() => createSource<T | null>(
+    () => store.get(key),
+    () => resolveDefault(key),
+    onChange => store.subscribe(key, onChange),
+  ), [store, keyId(key)]); // keys are compared by their names, not by the object identity
+
+  const value = useSyncExternalStore(source.subscribe, source.getSnapshot, source.getServerSnapshot);
+
+  const setValue = useCallback<SetStoreValue<T, T | null>>(next => {
+    const resolved = typeof next === 'function'
+      ? next(store.get(key))
+      : next;
+
+    if (resolved === null) store.remove([key]);
+    else store.save(key, resolved);
+  }, [store, keyId(key)]);
+
+  return [value, setValue];
+}
+
+/**
+ * Reads a tuple of keys, typed like `StrictStore.pick`, and keeps the component in sync with them.
+ * @public
+ *
+ * @typeParam K - A tuple of StoreKey objects with different value types
+ * @param keys - A tuple of StoreKey objects
+ * @param options - (optional) `store`: store to use instead of `StrictStore`
+ * @returns A tuple of values; it keeps its reference until one of the values changes.
+ *
+ * @example
+ * ```tsx
+ * const [theme, lang] = usePick([themeKey, langKey]);
+ * ```
+ *
+ * @remarks
+ * - The keys may be passed as a new array on every render
+ */
+export function usePick<const K extends readonly StoreKey<Persistable>[]>(
+  keys: K,
+  { store = StrictStore }: StoreHookOptions = {},
+): PickResult<K> {
+  const id = keys.map(keyId).join('\n');
+
+  const source = useMemo(() => createSource<PickResult<K>>(
+    () => store.pick(keys),
+    () => keys.map(key => resolveDefault(key)) as PickResult<K>,
+    onChange => store.onChange(onChange, [...keys]),
+  ), [store, id]); // keys are compared by their names, not by the array identity
+
+  return useSyncExternalStore(source.subscribe, source.getSnapshot, source.getServerSnapshot);
+}
@@ -0,0 +1,97 @@
+import { DecodedEntry, EntryMeta } from '@src/entry';
+import { decompressValue } from '@src/compression';
+import { Persistable, SnapshotEntry, StoreKey, StoreSnapshot } from '@src/types';
+
+export const SNAPSHOT_FORMAT = 'strict-store/snapshot'
+
+export const SNAPSHOT_VERSION = 1
+
+/**
+ * Converts a stored item into a snapshot entry, with its value decompressed.
+ *
+ * @internal
+ */
+export const toSnapshotEntry = (key: StoreKey<Persistable>, entry: DecodedEntry): SnapshotEntry => {
+  return {
+    ns: key.ns,
+    name: key.name,
+    storeType: key.storeType,
+    value: decompressValue(entry.valueStr),
+    ...entry.meta,
+  }
+}
+
+/**
+ * Metadata of a snapshot entry, in the shape written to storage.
+ *
+ * @internal
+ */
+export const snapshotMeta = ({ expiresAt, sliding, version }: SnapshotEntry): EntryMeta => {
+  return {
+    ...(expiresAt !== undefined && { expiresAt }),
+    ...(sliding !== undefined && { sliding }),
+    ...(version !== undefined && { version }),
+  }
+}
+
+const isName = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length > 0 && !value.includes(':')
+}
+
+const isOptionalNumber = (value: unknown): boolean => {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value))
+}
+
+/**
+ * Checks the shape of an entry of an imported snapshot.
+ *
+ * @internal
+ */
+export const isSnapshotEntry = (value: unknown): value is SnapshotEntry => {
+  if (typeof value !== 'object' || value === null) return false
+
+  const entry = value as Record<string, unknown>
+
+  return isName(entry.ns) &&
+    !entry.ns.split('/').includes('') &&
+    isName(entry.name) &&
+    typeof entry.storeType === 'string' &&
+    typeof entry.value === 'string' &&
+    isOptionalNumber(entry.expiresAt) &&
+    isOptionalNumber(entry.sliding) &&
+    isOptionalNumber(entry.version)
+}
+
+/**
+ * Parses and checks an imported snapshot document. Entries are checked one by one when they are imported.
+ *
+ * @internal
+ *
+ * @throws Error if the document is not a snapshot, or has a version this release cannot read.
+ */
+export const readSnapshot = (doc: unknown): Omit<StoreSnapshot, 'entries'> & { entries: readonly unknown[] } => {
+  let parsed = doc
+
+  if (typeof doc === 'string') {
+    try {
+      parsed = JSON.parse(doc)
+    } catch {
+      parsed = null
+    }
+  }
+
+  const snapshot = parsed as Record<string, unknown> | null
+
+  if (
+    typeof snapshot !== 'object' || snapshot === null ||
+    snapshot.format !== SNAPSHOT_FORMAT ||
+    typeof snapshot.version !== 'number' ||
+    !Array.isArray(snapshot.entries)
+  ) {
+    throw new Error('StrictStore.importSnapshot: The document is not a StrictStore snapshot.')
+  } else if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`StrictStore.importSnapshot: Unsupported snapshot version ${snapshot.version}.`)
+  }
+
+  return snapshot as unknown as Omit<StoreSnapshot, 'entries'> & { entries: readonly unknown[] }
+}
@@ -0,0 +1,222 @@
+import { CookieOptions, StorageAdapter, StorageChange } from '@src/types';
+import { resolveKey } from '@src/key-registry';
+import { parseStoreKey } from '@src/utils';
+
+/**
+ * Resolves a Web Storage area, or `undefined` when it is unavailable
+ * (Node, SSR, or access denied by the browser).
+ */
+const resolveArea = (name: 'localStorage' | 'sessionStorage'): Storage | undefined => {
+  try {
+    return typeof globalThis[name] === 'undefined' ? undefined : globalThis[name]
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Web Storage quota of most browsers: 5M characters per origin.
+ */
+const WEB_STORAGE_CAPACITY = 5 * 1024 * 1024 * 2
+
+/**
+ * Creates an adapter over `localStorage` or `sessionStorage`.
+ *
+ * @internal
+ *
+ * @param name - Global name of the storage area.
+ * @returns An adapter that reads as empty and refuses writes when the area is unavailable.
+ */
+export const createWebStorageAdapter = (
+  name: 'localStorage' | 'sessionStorage'
+): StorageAdapter => ({
+  get(key: string): string | null {
+    const area = resolveArea(name)
+    return area ? area.getItem(key) : null
+  },
+
+  set(key: string, value: string): void {
+    const area = resolveArea(name)
+    if (!area) throw new Error(`StrictStore: ${name} is not available in this environment.`)
+
+    area.setItem(key, value)
+  },
+
+  remove(key: string): void {
+    resolveArea(name)?.removeItem(key)
+  },
+
+  keys(): string[] {
+    const area = resolveArea(name)
+    if (!area) return []
+
+    const result: string[] = []
+    for (let i = 0; i < area.length; i++) {
+      const key = area.key(i)
+      if (key !== null) result.push(key)
+    }
+
+    return result
+  },
+
+  get length(): number {
+    return resolveArea(name)?.length ?? 0
+  },
+
+  capacity: WEB_STORAGE_CAPACITY,
+
+  subscribe(listener: (change: StorageChange) => void): () => void {
+    if (typeof window === 'undefined') return () => {}
+
+    const handler = (e: StorageEvent) => {
+      if (e.storageArea !== resolveArea(name)) return
+
+      listener({ name: e.key, newValue: e.newValue, oldValue: e.oldValue })
+    }
+
+    window.addEventListener('storage', handler)
+
+    return () => {
+      window.removeEventListener('storage', handler)
+    }
+  },
+})
+
+/**
+ * Maximum size of a cookie (name and value) accepted by browsers.
+ */
+const COOKIE_SIZE_LIMIT = 4096
+
+const cookieDocument = (): Document | undefined => {
+  return typeof document === 'undefined' ? undefined : document
+}
+
+const utf8Length = (value: string): number => {
+  return encodeURIComponent(value).replace(/%[0-9A-F]{2}/g, '_').length
+}
+
+/**
+ * Reads all cookies visible to the page as name → decoded value.
+ */
+const readCookies = (doc: Document): Map<string, string> => {
+  const cookies = new Map<string, string>()
+
+  for (const pair of doc.cookie.split(';')) {
+    const separator = pair.indexOf('=')
+    if (separator === -1) continue
+
+    const name = pair.slice(0, separator).trim()
+    try {
+      cookies.set(name, decodeURIComponent(pair.slice(separator + 1).trim()))
+    } catch {
+      // Not written by StrictStore
+    }
+  }
+
+  return cookies
+}
+
+/**
+ * Builds the attribute part of a cookie string.
+ */
+const cookieAttributes = ({ path = '/', domain, maxAge, sameSite, secure }: CookieOptions): string => {
+  let attributes = `; path=${path}`
+  if (domain !== undefined) attributes += `; domain=${domain}`
+  if (maxAge !== undefined) attributes += `; max-age=${maxAge}`
+  if (sameSite !== undefined) attributes += `; samesite=${sameSite}`
+  if (secure) attributes += '; secure'
+
+  return attributes
+}
+
+/**
+ * Returns the cookie attributes of the key stored under `name`.
+ */
+const cookieOptions = (name: string): CookieOptions => {
+  const key = parseStoreKey(name, 'cookie', name.slice(0, name.indexOf('/')))
+
+  return (key && resolveKey(key).cookie) ?? {}
+}
+
+/**
+ * Creates an adapter over `document.cookie`.
+ *
+ * @internal
+ *
+ * @returns An adapter that reads as empty and refuses writes when there is no `document`.
+ *
+ * @remarks
+ * - Values are URI-encoded; cookie attributes come from the `cookie` option of the key.
+ * - Writes larger than 4KB (name and encoded value) are rejected instead of being silently dropped by the browser.
+ */
+export const createCookieAdapter = (): StorageAdapter => ({
+  get(key: string): string | null {
+    const doc = cookieDocument()
+    return doc ? readCookies(doc).get(key) ?? null : null
+  },
+
+  set(key: string, value: string): void {
+    const doc = cookieDocument()
+    if (!doc) throw new Error('StrictStore: document.cookie is not available in this environment.')
+
+    const encoded = encodeURIComponent(value)
+    const size = utf8Length(key) + encoded.length
+    if (size > COOKIE_SIZE_LIMIT) {
+      throw new Error(
+        `StrictStore: The cookie "${key}" is ${size} bytes, exceeding the ${COOKIE_SIZE_LIMIT}-byte cookie limit.`
+      )
+    }
+
+    doc.cookie = `${key}=${encoded}${cookieAttributes(cookieOptions(key))}`
+  },
+
+  remove(key: string): void {
+    const doc = cookieDocument()
+    if (!doc) return
+
+    doc.cookie = `${key}=${cookieAttributes({ ...cookieOptions(key), maxAge: 0 })}`
+  },
+
+  keys(): string[] {
+    const doc = cookieDocument()
+    return doc ? Array.from(readCookies(doc).keys()) : []
+  },
+
+  get length(): number {
+    return this.keys().length
+  },
+})
+
+/**
+ * Creates an adapter that keeps values in memory.
+ * @public
+ *
+ * @returns A new, empty in-memory adapter.
+ *
+ * @example
+ * ```ts
+ * // Isolated storage for tests
+ * registerStorage('test', createMemoryAdapter());
+ * ```
+ *
+ * @remarks
+ * - Values live as long as the adapter object; nothing is shared between tabs.
+ * - Works in any JavaScript environment.
+ */
+export const createMemoryAdapter = (): StorageAdapter => {
+  const items = new Map<string, string>()
+
+  return {
+    get: key => items.get(key) ?? null,
+    set: (key, value) => {
+      items.set(key, value)
+    },
+    remove: key => {
+      items.delete(key)
+    },
+    keys: () => Array.from(items.keys()),
+    get length() {
+      return items.size
+    },
+  }
+}
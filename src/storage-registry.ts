@@ -0,0 +1,76 @@
+import { StorageAdapter, StoreType } from '@src/types';
+import { createCookieAdapter, createMemoryAdapter, createWebStorageAdapter } from '@src/storage-adapters';
+
+const builtInTypes: readonly StoreType[] = ['local', 'session', 'memory', 'cookie']
+
+const adapters = new Map<StoreType, StorageAdapter>([
+  ['local', createWebStorageAdapter('localStorage')],
+  ['session', createWebStorageAdapter('sessionStorage')],
+  ['memory', createMemoryAdapter()],
+  ['cookie', createCookieAdapter()],
+])
+
+/**
+ * Returns the adapter registered for a storage type.
+ *
+ * @internal
+ *
+ * @throws Error if no adapter is registered under the type.
+ */
+export const getStorage = (type: StoreType): StorageAdapter => {
+  const adapter = adapters.get(type)
+  if (!adapter) throw new Error(`StrictStore: Unknown storage type "${type}".`)
+
+  return adapter
+}
+
+/**
+ * Returns all registered storage types with their adapters, built-in ones first.
+ *
+ * @internal
+ */
+export const getStorages = (): [StoreType, StorageAdapter][] => {
+  return Array.from(adapters.entries())
+}
+
+/**
+ * Registers a storage adapter under a custom {@link StoreType} name.
+ * @public
+ *
+ * @param type - Storage type name used in {@link createKey}
+ * @param adapter - Backend implementing {@link StorageAdapter}
+ * @returns Function that removes the registration.
+ *
+ * @example
+ * ```ts
+ * declare module 'strict-store' {
+ *   interface CustomStoreTypes {
+ *     scratch: true;
+ *   }
+ * }
+ *
+ * registerStorage('scratch', createMemoryAdapter());
+ *
+ * const draftKey = createKey<string>('editor', 'draft', 'scratch');
+ * StrictStore.save(draftKey, 'Hello');
+ * ```
+ *
+ * @throws Error if the type is a built-in one or is already registered.
+ *
+ * @remarks
+ * - Registered storages take part in `entries`, `keys`, `size`, `clear` and `onChange`.
+ */
+export const registerStorage = (type: StoreType, adapter: StorageAdapter): () => void => {
+  if (builtInTypes.includes(type)) {
+    throw new Error(`registerStorage: The storage type "${type}" is built in.`)
+  } else if (adapters.has(type)) {
+    throw new Error(`registerStorage: The storage type "${type}" is already registered.`)
+  }
+
+  adapters.set(type, adapter)
+
+  return () => {
+    if (adapters.get(type) === adapter)
+      adapters.delete(type)
+  }
+}
@@ -1,15 +1,15 @@
 import { complexTypeMappers } from '@src/complex-types-mappers';
 import { isTypedArray } from '@src/utils';
+import { findCustomType, getCustomType } from '@src/type-registry';
 import { BasicPersistable, Persistable, StoreKey } from '@src/types';
 import { ComplexTypeData, ComplexTypeNames, TYPED_ARRAY_CONSTRUCTORS, TypedArray } from '@src/internal-types';
 
 export const strictJson = {
+  /**
+   * @throws SyntaxError if the text is not JSON, or Error if it uses an unknown `__type`.
+   * */
   parse<T extends Persistable>(value: string): T {
-    try {
-      return JSON.parse(value, reviver) as T;
-    } catch {
-      return value as T;
-    }
+    return JSON.parse(value, reviver) as T;
   },
 
   stringify<T extends StoreKey<Persistable>>(value: T['__type']): string {
@@ -17,21 +17,44 @@ export const strictJson = {
   },
 }
 
-const replacer = (
+/**
+ * `JSON.stringify` calls `toJSON` (Date, URL) before the replacer runs,
+ * so the original value is read from the holder object.
+ * */
+const replacer = function (
+  this: Record<string, Persistable>,
   key: string,
   value: Persistable,
-): Persistable => {
-  if (typeof value === 'bigint')
-    return complexTypeMappers.bigint(value)
+): Persistable {
+  const raw = this[key]
+  const customType = findCustomType(raw)
+
+  if (customType)
+    return complexTypeMappers.custom(raw, customType)
+
+  else if (typeof raw === 'bigint')
+    return complexTypeMappers.bigint(raw)
 
-  else if (value instanceof Map)
-    return complexTypeMappers.map(value)
+  else if (typeof raw === 'number' && (!Number.isFinite(raw) || Object.is(raw, -0)))
+    return complexTypeMappers.number(raw)
 
-  else if (value instanceof Set)
-    return complexTypeMappers.set(value)
+  else if (raw instanceof Map)
+    return complexTypeMappers.map(raw)
 
-  else if (isTypedArray(value))
-    return complexTypeMappers.typedArray(value)
+  else if (raw instanceof Set)
+    return complexTypeMappers.set(raw)
+
+  else if (isTypedArray(raw))
+    return complexTypeMappers.typedArray(raw)
+
+  else if (raw instanceof Date)
+    return complexTypeMappers.date(raw)
+
+  else if (raw instanceof RegExp)
+    return complexTypeMappers.regexp(raw)
+
+  else if (raw instanceof URL)
+    return complexTypeMappers.url(raw)
 
   else
     return value
@@ -67,6 +90,20 @@ const reviver = (
 
         return new Constructor((value.value) as TypedArray)
       }
+      case 'date':
+        return new Date((value.value) as string)
+      case 'regexp':
+        return new RegExp((value.value) as string, (value as ComplexTypeData).subtype)
+      case 'url':
+        return new URL((value.value) as string)
+      case 'number':
+        return Number((value.value) as string)
+      case 'custom': {
+        const definition = getCustomType((value as ComplexTypeData).subtype as string)
+        if (!definition) throw new Error(`Unknown custom type: ${value.subtype}`)
+
+        return definition.deserialize(value.value) as Persistable
+      }
 
       default:
         throw new Error(`Unknown __type: ${typeName}`)
@@ -1,15 +1,120 @@
+import { isEqual } from 'lodash';
 import { strictJson } from '@src/strict-json';
 import {
+  DEFAULT_PREFIX,
   deepMerge,
   getFullName,
-  getStorage,
+  resolveDefault,
+  storedBytes,
   isStoreKey,
   isStrictStoreEvent,
   parseStoreKey,
-  resolveTargets
+  resolveTargets,
+  resolveNamespace,
+  namespacePrefixes,
 } from '@src/utils';
-import { StoreKey, Persistable, StoreType, ExtendedPersistable, BasicPersistable } from '@src/types';
-import { DeepPartial } from '@src/internal-types';
+import { registerType } from '@src/type-registry';
+import { getStorage, getStorages, registerStorage } from '@src/storage-registry';
+import { createMemoryAdapter } from '@src/storage-adapters';
+import { AsyncStrictStore } from '@src/async-strict-store';
+import { registerKey, resolveKey } from '@src/key-registry';
+import { isVersioned, keyVersion, withVersion } from '@src/migration';
+import { decodeValue } from '@src/decode-value';
+import { compressValue, decompressValue } from '@src/compression';
+import {
+  isSnapshotEntry,
+  readSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  snapshotMeta,
+  toSnapshotEntry
+} from '@src/snapshot';
+import {
+  decryptEntry,
+  encryptValue,
+  isEncrypted,
+  registerEncryption,
+  resolveEncryptionKey
+} from '@src/encryption';
+import { StrictStoreQuotaError, StrictStoreValidationError } from '@src/errors';
+import { evictLeastRecentlyUsed, isQuotaExceeded, registerEvictable, touchEntry } from '@src/eviction';
+import { emitLocalChanges, LocalChange, subscribeLocalChanges } from '@src/local-changes';
+import { createChangeStream } from '@src/change-stream';
+import { openSyncChannel } from '@src/tab-sync';
+import {
+  decodeEntry,
+  DecodedEntry,
+  encodeEntry,
+  EntryMeta,
+  isExpired,
+  resolveTtl,
+  shouldSlide,
+  slideEntry
+} from '@src/entry';
+import {
+  StoreKey,
+  Persistable,
+  StoreType,
+  ExtendedPersistable,
+  BasicPersistable,
+  CustomPersistable,
+  CustomPersistableTypes,
+  CustomTypeDefinition,
+  InvalidValuePolicy,
+  KeyOptions,
+  StandardSchema,
+  StandardSchemaResult,
+  ValidationIssue,
+  Validator,
+  DefaultValue,
+  StoreKeyWithDefault,
+  SaveOptions,
+  Ttl,
+  Migration,
+  CustomStoreTypes,
+  StorageAdapter,
+  StorageChange,
+  CookieOptions,
+  CompressionOptions,
+  QuotaPolicy,
+  KeyUsage,
+  StorageUsage,
+  ChangeOrigin,
+  Transaction,
+  Namespace,
+  NamespaceOptions,
+  Serializer,
+  StrictStoreOptions,
+  SnapshotEntry,
+  StoreSnapshot,
+  SnapshotImportOptions,
+  SnapshotSkipReason,
+  SnapshotImportResult,
+  BindableStore,
+  StoreChange,
+  ChangeObserver,
+  ChangeSubscription,
+  ChangeStream,
+  TabSyncPolicy,
+  TabSyncOptions,
+  FieldDefinition,
+  FieldDefinitionWithDefault,
+  StoreSchema,
+  StoreField,
+  StoreValues,
+  DefinedStore,
+  DefineStoreOptions,
+} from '@src/types';
+import { DeepPartial, PickResult, StoreConfig } from '@src/internal-types';
+
+/**
+ * A write staged by a batch operation; `raw: null` removes the name.
+ */
+type StagedWrite = {
+  key: StoreKey<Persistable>;
+  raw: string | null;
+  quota?: QuotaPolicy;
+};
 
 /**
  * A type-safe wrapper around localStorage and sessionStorage
@@ -27,7 +132,255 @@ class StrictStore {
   /**
    * To ignore TypeDoc
    * */
-  private constructor() {}
+  protected constructor() {}
+
+  /**
+   * Settings of the store; stores made by {@link createStrictStore} override them.
+   * */
+  protected static config: StoreConfig = {
+    prefix: DEFAULT_PREFIX,
+    storages: {},
+    serializer: strictJson,
+  };
+
+  /**
+   * Storage name of a key in this store.
+   * */
+  private static fullName(key: StoreKey<Persistable>): string {
+    return getFullName(key.ns, key.name, this.config.prefix);
+  }
+
+  /**
+   * Adapter of a storage type in this store.
+   * */
+  private static storage(type: StoreType): StorageAdapter {
+    return this.config.storages[type] ?? getStorage(type);
+  }
+
+  /**
+   * Adapters of all storage types in this store.
+   * */
+  private static storages(): [StoreType, StorageAdapter][] {
+    const overrides = this.config.storages;
+    const storages = getStorages().map(([type, adapter]): [StoreType, StorageAdapter] =>
+      [type, overrides[type] ?? adapter]
+    );
+
+    for (const type of Object.keys(overrides) as StoreType[])
+      if (!storages.some(([registered]) => registered === type))
+        storages.push([type, overrides[type]!]);
+
+    return storages;
+  }
+
+  /**
+   * Rejects synchronous access to keys whose values are encrypted.
+   * */
+  private static assertUnencrypted(key: StoreKey<Persistable>): void {
+    if (resolveEncryptionKey(key)) {
+      throw new Error(
+        `StrictStore: "${this.fullName(key)}" is encrypted, use StrictStore.getAsync and StrictStore.saveAsync.`
+      )
+    }
+  }
+
+  /**
+   * Reads and decodes the stored entry of a key. Expired entries are removed and reported as missing.
+   * */
+  private static readEntry(key: StoreKey<Persistable>): DecodedEntry | null {
+    const storage = this.storage(key.storeType);
+    const fullName = this.fullName(key);
+    const raw = storage.get(fullName);
+    if (raw === null) return null
+
+    const entry = decodeEntry(raw)
+    if (isExpired(entry.meta)) {
+      this.remove([key])
+      return null
+    }
+
+    return entry
+  }
+
+  /**
+   * Restarts the sliding lifetime of a read entry when it is due (see {@link shouldSlide}).
+   * The value is unchanged, so only the evictions needed to make room are reported;
+   * when it does not fit, the entry keeps its expiration.
+   * */
+  private static slide(key: StoreKey<Persistable>, entry: DecodedEntry): void {
+    if (!shouldSlide(entry.meta)) return
+
+    const fullName = this.fullName(key);
+    const changes: LocalChange[] = [];
+
+    try {
+      this.writeRaw(key, encodeEntry(entry.valueStr, slideEntry(entry.meta)), changes);
+    } catch (e) {
+      if (!(e instanceof StrictStoreQuotaError)) throw e;
+    } finally {
+      emitLocalChanges(changes.filter(change => change.name !== fullName));
+    }
+  }
+
+  /**
+   * Deserializes a stored entry, upgrades it to the key version and runs the key validator on it.
+   * Returns `undefined` when the value must be treated as missing, which includes encrypted values.
+   *
+   * @param onInvalid - Policy applied to invalid values (defaults to the key policy)
+   * @param persist - Write an upgraded value back (defaults to the key `persistMigrated`)
+   * */
+  private static readValue<T extends Persistable>(
+    key: StoreKey<T>,
+    entry: DecodedEntry | null,
+    {
+      onInvalid = key.onInvalid ?? 'null',
+      persist = key.persistMigrated === true,
+    }: { onInvalid?: InvalidValuePolicy; persist?: boolean } = {},
+  ): T | undefined {
+    if (entry === null || isEncrypted(entry.valueStr)) return undefined
+
+    const result = decodeValue(key, entry, this.config.serializer)
+
+    if (!result.valid) {
+      switch (onInvalid) {
+        case 'throw':
+          throw new StrictStoreValidationError(key, result.value, result.issues, this.fullName(key))
+        case 'remove':
+          this.remove([key])
+          return undefined
+        default:
+          return undefined
+      }
+    }
+
+    if (result.migrated && persist)
+      this.writeValue(key, result.value, withVersion(key, entry.meta))
+
+    return result.value as T
+  }
+
+  /**
+   * Whether a stored entry holds a value `get` would return, without applying the `onInvalid` policy
+   * or persisting upgrades. Encrypted values cannot be checked synchronously and count as present.
+   * */
+  private static isPresent(key: StoreKey<Persistable>, entry: DecodedEntry | null): boolean {
+    if (entry === null) return false
+
+    return isEncrypted(entry.valueStr) ||
+      this.readValue(key, entry, { onInvalid: 'null', persist: false }) !== undefined
+  }
+
+  /**
+   * Serializes a value with its metadata and writes it to the storage of the key.
+   * */
+  private static writeValue(
+    key: StoreKey<Persistable>,
+    value: Persistable,
+    meta: EntryMeta,
+    quota?: QuotaPolicy,
+  ): void {
+    this.assertUnencrypted(key);
+
+    const changes: LocalChange[] = [];
+    this.writeRaw(key, this.encode(key, value, meta), changes, quota);
+    emitLocalChanges(changes);
+  }
+
+  /**
+   * Serializes a value into the string written to storage.
+   * */
+  private static encode(key: StoreKey<Persistable>, value: Persistable, meta: EntryMeta): string {
+    return encodeEntry(compressValue(key, this.config.serializer.stringify(value)), meta);
+  }
+
+  /**
+   * Applies staged writes (`raw: null` removes) and notifies listeners once per changed name.
+   * If a write fails, the names written before it are restored and the error is rethrown.
+   * */
+  private static commit(writes: readonly StagedWrite[]): void {
+    const keep = new Set(writes.map(({ key }) => this.fullName(key)));
+    const applied: { storage: StorageAdapter; fullName: string; previous: string | null }[] = [];
+    const changes: LocalChange[] = [];
+
+    try {
+      for (const { key, raw, quota } of writes) {
+        const storage = this.storage(key.storeType);
+        const fullName = this.fullName(key);
+        const previous = storage.get(fullName);
+
+        if (raw === null) {
+          storage.remove(fullName);
+          if (previous !== null)
+            changes.push({ storeType: key.storeType, storage, name: fullName, newValue: null, oldValue: previous });
+        } else {
+          this.writeRaw(key, raw, changes, quota, keep);
+        }
+
+        applied.push({ storage, fullName, previous });
+      }
+    } catch (e) {
+      for (let i = applied.length - 1; i >= 0; i--) {
+        const { storage, fullName, previous } = applied[i];
+
+        try {
+          if (previous === null) storage.remove(fullName);
+          else storage.set(fullName, previous);
+        } catch {
+          // Keep restoring the others
+        }
+      }
+
+      // Evictions are not rolled back
+      emitLocalChanges(changes.filter(change => !keep.has(change.name!)));
+      throw e;
+    }
+
+    const coalesced = new Map<string, LocalChange>();
+    for (const change of changes) {
+      const id = `${change.storeType}|${change.name}`;
+      const first = coalesced.get(id);
+
+      coalesced.set(id, first ? { ...change, oldValue: first.oldValue } : change);
+    }
+
+    emitLocalChanges(Array.from(coalesced.values()).filter(change => change.newValue !== change.oldValue));
+  }
+
+  /**
+   * Writes an encoded entry, applying the quota policy when it does not fit.
+   * Evictions and the write itself are appended to `changes`; notifying listeners is up to the caller.
+   *
+   * @param keep - Storage names that must not be evicted to make room
+   * */
+  private static writeRaw(
+    key: StoreKey<Persistable>,
+    raw: string,
+    changes: LocalChange[],
+    quota: QuotaPolicy = key.quota ?? 'throw',
+    keep: ReadonlySet<string> = new Set([this.fullName(key)]),
+  ): void {
+    const storage = this.storage(key.storeType);
+    const fullName = this.fullName(key);
+    const oldValue = storage.get(fullName);
+
+    for (;;) {
+      try {
+        storage.set(fullName, raw);
+        break;
+      } catch (e) {
+        if (!isQuotaExceeded(e)) throw e;
+
+        const evicted = quota === 'evict' ? evictLeastRecentlyUsed(storage, keep, this.config.prefix) : null;
+        if (!evicted)
+          throw new StrictStoreQuotaError(key, storedBytes(fullName, raw), e, fullName);
+
+        changes.push({ ...evicted, storeType: key.storeType, storage });
+      }
+    }
+
+    touchEntry(storage, key.ns, fullName, this.config.prefix);
+    changes.push({ storeType: key.storeType, storage, name: fullName, newValue: raw, oldValue });
+  }
 
   /**
    * Retrieves a value from storage.
@@ -35,7 +388,7 @@ class StrictStore {
    *
    * @typeParam T - Type of the stored value (inferred from StoreKey)
    * @param key - StoreKey object containing ns, name and default value
-   * @returns The stored value that provides:
+   * @returns The stored value (or the key default when nothing valid is stored) that provides:
    * - Automatic JSON serialization/deserialization
    * - Namespace support to prevent name collisions
    * - Strict typing for all operations
@@ -48,18 +401,31 @@ class StrictStore {
    * );
    *
    * const theme: 'light' | 'dark' | null = StrictStore.get(themeKey);
+   *
+   * const langKey = createKey<'en' | 'ru'>('app', 'lang', 'local', { default: 'en' });
+   * const lang: 'en' | 'ru' = StrictStore.get(langKey); // never null
    * ```
    *
+   * @throws StrictStoreValidationError if the stored value is invalid and the key uses the `'throw'` policy.
+   * @throws Error if the key is encrypted; use {@link StrictStore.getAsync}.
+   *
    * @remarks
    * - Automatically handles JSON parsing
+   * - Runs the key validator, if any; invalid values are handled according to `onInvalid`
+   * - Expired values are removed and treated as missing; a sliding TTL is restarted
    */
+  static get<T extends Persistable>(key: StoreKeyWithDefault<T>): T;
+  static get<T extends Persistable>(key: StoreKey<T>): T | null;
   static get<T extends Persistable>(key: StoreKey<T>): T | null {
-    const storage = getStorage(key.storeType);
-    const storedValue = storage.getItem(getFullName(key.ns, key.name));
+    this.assertUnencrypted(key)
+    const entry = this.readEntry(key)
+    if (entry) this.slide(key, entry)
 
-    if(storedValue === null) return storedValue;
+    const value = this.readValue(key, entry)
+    if (value !== undefined)
+      touchEntry(this.storage(key.storeType), key.ns, this.fullName(key), this.config.prefix)
 
-    return strictJson.parse<T>(storedValue)
+    return value === undefined ? resolveDefault(key) : value
   }
 
   /**
@@ -68,7 +434,8 @@ class StrictStore {
    *
    * @typeParam K - A tuple of StoreKey objects with different value types
    * @param keys - A tuple of StoreKey objects
-   * @returns A tuple of values (or null), corresponding to each key
+   * @returns A tuple of values (or null), corresponding to each key.
+   *   Keys with a default value never produce null.
    *
    * @example
    * ```ts
@@ -80,21 +447,22 @@ class StrictStore {
    */
   static pick<const K extends readonly StoreKey<Persistable>[]>(
     keys: K
-  ): { [I in keyof K]: K[I] extends StoreKey<infer T> ? T | null : never } {
+  ): PickResult<K> {
     const out: unknown[] = new Array(keys.length)
     for (let i = 0; i < keys.length; i++)
-      out[i] = StrictStore.get(keys[i]);
+      out[i] = this.get(keys[i]);
 
-    return out as { [I in keyof K]: K[I] extends StoreKey<infer T> ? T | null : never }
+    return out as PickResult<K>
   }
 
   /**
-   * Retrieves all stored key-value pairs from both localStorage and sessionStorage that belong to StrictStore.
+   * Retrieves all stored key-value pairs from all registered storages that belong to StrictStore.
    * If a namespace is provided, only keys with the 'strict-store/[ns]:' prefix are included.
    * Otherwise, all keys with the 'strict-store/' prefix are returned.
    * @public
    *
    * @param ns - (optional) Namespace to filter keys (e.g., 'user' will return all 'user:*' keys)
+   * @param options - (optional) `descendants`: also include nested namespaces
    * @returns An array of objects, each containing the storage key and its parsed value.
    *
    * @example
@@ -105,53 +473,80 @@ class StrictStore {
    * // Get only items for the 'user' namespace
    * const userItems = StrictStore.entries(['user']);
    *
+   * // Items of 'app/settings' and of the namespaces nested in it
+   * const settings = StrictStore.entries([['app', 'settings']], { descendants: true });
+   *
    * userItems.forEach(({ key, value }) => {
    *   console.log(key, value);
    * });
    * ```
    *
    * @remarks
-   * - Scans both localStorage and sessionStorage.
+   * - Scans localStorage, sessionStorage, memory and every storage added with {@link registerStorage}.
    * - Only includes keys managed by StrictStore (those starting with 'strict-store/').
+   * - Values of keys created with a validator are checked; invalid ones are skipped.
+   * - Expired values are skipped.
+   * - Values stored with an older schema version are upgraded by the key migrations.
    */
   static entries(
-    ns?: string[]
+    ns?: Namespace[],
+    options: NamespaceOptions = {},
   ): { key: StoreKey<Persistable>, value: Persistable }[] {
+    const result: { key: StoreKey<Persistable>; value: Persistable }[] = []
+
+    for (const { key, entry } of this.scan(ns, options)) {
+      const value = this.readValue(resolveKey(key), entry)
+      if (value === undefined) continue
+
+      result.push({ key, value })
+    }
+
+    return result
+  }
+
+  /**
+   * Collects the raw StrictStore-managed items of all storages without deserializing their values.
+   * Expired items are skipped unless `includeExpired` is set.
+   * */
+  private static scan(
+    ns?: Namespace[],
+    { descendants = false }: NamespaceOptions = {},
+    includeExpired = false,
+  ): { key: StoreKey<Persistable>; entry: DecodedEntry; expired: boolean; bytes: number }[] {
     if (Array.isArray(ns) && ns.length === 0)
       return []
 
     const prefixes: readonly string[] =
-      ns && ns.length > 0 ? ns.map(n => `strict-store/${n}:`) : ['strict-store/']
+      ns && ns.length > 0 ? namespacePrefixes(ns, descendants, this.config.prefix) : [`${this.config.prefix}/`]
 
-    const storages: [Storage, StoreType][] = [
-      [localStorage, 'local'],
-      [sessionStorage, 'session'],
-    ]
+    const storages = this.storages()
 
-    const result: { key: StoreKey<Persistable>; value: Persistable }[] = []
+    const found: { key: StoreKey<Persistable>; entry: DecodedEntry; expired: boolean; bytes: number }[] = []
+    const now = Date.now()
 
     for (let s = 0; s < storages.length; s++) {
-      const [storage, storageType] = storages[s]
+      const [storageType, storage] = storages[s]
+      const rawKeys = storage.keys()
 
-      for (let i = 0; i < storage.length; i++) {
-        const rawKey = storage.key(i);
-        if (!rawKey) continue
+      for (let i = 0; i < rawKeys.length; i++) {
+        const rawKey = rawKeys[i];
         if (!isStoreKey(rawKey, prefixes)) continue
 
-        const valueStr = storage.getItem(rawKey);
+        const valueStr = storage.get(rawKey);
         if (valueStr === null) continue
 
-        const storeKey = parseStoreKey(rawKey, storageType)
+        const storeKey = parseStoreKey(rawKey, storageType, this.config.prefix)
         if (!storeKey) continue
 
-        result.push({
-          key: storeKey,
-          value: strictJson.parse(valueStr),
-        })
+        const entry = decodeEntry(valueStr)
+        const expired = isExpired(entry.meta, now)
+        if (expired && !includeExpired) continue
+
+        found.push({ key: storeKey, entry, expired, bytes: storedBytes(rawKey, valueStr) })
       }
     }
 
-    return result
+    return found
   }
 
   /**
@@ -161,6 +556,8 @@ class StrictStore {
    * @typeParam T - Type of the stored value (inferred from StoreKey)
    * @param key - StoreKey object containing ns and name
    * @param value - Value to store (will be JSON.stringified)
+   * @param options - (optional) Write options:
+   *                  - `ttl`: expiration of this value, overrides the key TTL
    *
    * @example
    * ```ts
@@ -171,12 +568,115 @@ class StrictStore {
    *
    * // Only the literal type is allowed
    * StrictStore.save(themeKey, 'dark');
+   *
+   * // Expires in one hour
+   * StrictStore.save(tokenKey, token, { ttl: 60 * 60 * 1000 });
+   * ```
+   *
+   * @throws Error if the key is encrypted; use {@link StrictStore.saveAsync}.
+   */
+  static save<T extends StoreKey<Persistable>>(
+    key: T,
+    value: T['__type'],
+    options: SaveOptions = {},
+  ): void {
+    this.writeValue(key, value, withVersion(key, resolveTtl(options.ttl ?? key.ttl)), options.quota);
+  }
+
+  /**
+   * Retrieves a value from storage, decrypting it when the key is encrypted.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object, encrypted or not
+   * @returns The stored value, or the key default (`null` without one) when nothing valid is stored.
+   *
+   * @example
+   * ```ts
+   * const tokenKey = createKey<string>('auth', 'token', 'local', { encryption: cryptoKey });
+   * const token: string | null = await StrictStore.getAsync(tokenKey);
+   * ```
+   *
+   * @throws Error if the value cannot be decrypted with the key.
+   *
+   * @remarks
+   * - Behaves like {@link StrictStore.get} otherwise
+   * - Values saved before encryption was enabled are read as they are and encrypted on the next save
+   */
+  static async getAsync<T extends Persistable>(key: StoreKeyWithDefault<T>): Promise<T>;
+  static async getAsync<T extends Persistable>(key: StoreKey<T>): Promise<T | null>;
+  static async getAsync<T extends Persistable>(key: StoreKey<T>): Promise<T | null> {
+    const cryptoKey = resolveEncryptionKey(key)
+    if (!cryptoKey) return this.get(key)
+
+    const stored = this.readEntry(key)
+    if (stored) this.slide(key, stored)
+
+    const entry = stored && await decryptEntry(key, stored, this.fullName(key))
+    const value = this.readValue(key, entry, { persist: false })
+
+    if (
+      entry && value !== undefined && key.persistMigrated &&
+      isVersioned(key) && (entry.meta.version ?? 0) !== keyVersion(key)
+    ) {
+      await this.writeEncrypted(key, value, withVersion(key, entry.meta), cryptoKey)
+    }
+
+    return value === undefined ? resolveDefault(key) : value
+  }
+
+  /**
+   * Saves a value to storage, encrypting it when the key is encrypted.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object, encrypted or not
+   * @param value - Value to store
+   * @param options - (optional) Write options, see {@link StrictStore.save}
+   *
+   * @example
+   * ```ts
+   * await StrictStore.saveAsync(tokenKey, token);
    * ```
+   *
+   * @remarks
+   * - The `strictJson` output is encrypted with AES-GCM; expiration and version stay readable,
+   *   so `has`, `size`, `clear` and `purgeExpired` work without the encryption key
    */
-  static save<T extends StoreKey<Persistable>>(key: T, value: T['__type']): void {
-    const storage = getStorage(key.storeType);
+  static async saveAsync<T extends StoreKey<Persistable>>(
+    key: T,
+    value: T['__type'],
+    options: SaveOptions = {},
+  ): Promise<void> {
+    const cryptoKey = resolveEncryptionKey(key)
+    const meta = withVersion(key, resolveTtl(options.ttl ?? key.ttl))
+
+    if (cryptoKey)
+      await this.writeEncrypted(key, value, meta, cryptoKey, options.quota)
+    else
+      this.writeValue(key, value, meta, options.quota)
+  }
+
+  /**
+   * Serializes and encrypts a value, then writes it with its metadata to the storage of the key.
+   * */
+  private static async writeEncrypted(
+    key: StoreKey<Persistable>,
+    value: Persistable,
+    meta: EntryMeta,
+    cryptoKey: CryptoKey,
+    quota?: QuotaPolicy,
+  ): Promise<void> {
+    const valueStr = await encryptValue(
+      key,
+      compressValue(key, this.config.serializer.stringify(value)),
+      cryptoKey,
+      this.fullName(key),
+    )
 
-    storage.setItem(getFullName(key.ns, key.name), strictJson.stringify(value));
+    const changes: LocalChange[] = []
+    this.writeRaw(key, encodeEntry(valueStr, meta), changes, quota)
+    emitLocalChanges(changes)
   }
 
   /**
@@ -192,6 +692,12 @@ class StrictStore {
    *   [langKey, 'en'],
    * ]);
    * ```
+   *
+   * @throws StrictStoreQuotaError if a value does not fit; values written before it are restored.
+   *
+   * @remarks
+   * - All values are serialized before anything is written
+   * - Each key applies its own quota policy; entries of the batch are never evicted for each other
    */
   static saveBatch<
     Pairs extends readonly [StoreKey<Persistable>, Persistable][]
@@ -204,9 +710,12 @@ class StrictStore {
         : never
     }
   ): void {
-    for (const [key, value] of entries) {
-      StrictStore.save(key as any, value);
-    }
+    entries.forEach(([key]) => this.assertUnencrypted(key));
+
+    this.commit(entries.map(([key, value]) => ({
+      key,
+      raw: this.encode(key, value, withVersion(key, resolveTtl(key.ttl))),
+    })));
   }
 
   /**
@@ -229,7 +738,7 @@ class StrictStore {
    * StrictStore.merge(userKey, { name: 'Alex' });
    * ```
    *
-   * @throws Error if no value exists for the key.
+   * @throws Error if no value exists for the key and the key has no default value.
    *
    * @remarks
    * - Internally uses {@link https://lodash.com/docs/#merge | lodash.merge}.
@@ -238,19 +747,32 @@ class StrictStore {
    *   - Example: merging `{ tags: ['a', 'b'] }` with `{ tags: ['x'] }` results in `{ tags: ['x'] }`.
    * - Use {@link StrictStore.save} if you need to completely overwrite the object
    *   rather than partially merging.
+   * - If nothing is stored yet, the partial is merged into the key default value.
+   * - The expiration of an existing value is kept; a new value gets the key TTL.
    * */
   static merge<T extends Record<string, Persistable>>(
     key: StoreKey<T>,
     partial: DeepPartial<T>
   ): void {
-    const storage = getStorage(key.storeType);
-    const fullKey = getFullName(key.ns, key.name);
-    const storedValue = storage.getItem(fullKey);
+    this.assertUnencrypted(key);
+    const [merged, meta] = this.mergeEntry(key, partial, this.readEntry(key));
+    this.writeValue(key, merged, meta);
+  }
 
-    let current: T | null = null;
-    if (storedValue !== null) {
-      current = strictJson.parse<T>(storedValue);
-    }
+  /**
+   * Merges a partial value into the value of an entry (or the key default).
+   * Returns the merged value and the metadata to write it with.
+   *
+   * @param readOptions - Options of the read of the entry, see {@link StrictStore.readValue}
+   * */
+  private static mergeEntry<T extends Record<string, Persistable>>(
+    key: StoreKey<T>,
+    partial: DeepPartial<T>,
+    entry: DecodedEntry | null,
+    readOptions?: { onInvalid?: InvalidValuePolicy; persist?: boolean },
+  ): [T, EntryMeta] {
+    const storedValue = this.readValue(key, entry, readOptions);
+    const current = storedValue === undefined ? resolveDefault(key) : storedValue;
 
     if (current === null) {
       throw new Error('StrictStore.merge: Cannot initialize the object. Use StrictStore.save for initial value.');
@@ -260,138 +782,756 @@ class StrictStore {
       throw new Error('StrictStore.merge: Can only merge into plain objects');
     }
 
-    const merged = deepMerge(current, partial);
-    storage.setItem(fullKey, strictJson.stringify(merged));
+    const meta = entry && storedValue !== undefined ? entry.meta : resolveTtl(key.ttl);
+
+    return [deepMerge(current, partial), withVersion(key, meta)];
   }
 
   /**
-   * Iterates over all StrictStore-managed key-value pairs and executes a callback for each.
+   * Replaces the value of a key with the result of a function of the current one.
    * @public
    *
-   * @param callback - Function to execute for each key-value pair.
-   *   Receives (key, value)
-   * @param ns - Optional namespace to filter keys.
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object identifying the item to update
+   * @param updater - Receives the current value (the key default, or `null`, when nothing is stored)
+   *   and returns the new one; `null` removes the value
    *
    * @example
    * ```ts
-   * StrictStore.forEach((key, value) => {
-   *   console.log(key, value, storageType);
-   * }, ['namespace1', 'namespace2']);
+   * const visitsKey = createKey<number>('app', 'visits', 'local', { default: 0 });
+   * StrictStore.update(visitsKey, visits => visits + 1);
+   *
+   * const userKey = createKey<User>('app', 'user');
+   * StrictStore.update(userKey, user => user && { ...user, age: user.age + 1 });
    * ```
+   *
+   * @throws Error if the key is encrypted.
+   *
+   * @remarks
+   * - The value is read and written in one synchronous step, so no other write of the tab comes in between
+   * - The expiration of an existing value is kept; a new value gets the key TTL
    */
-  static forEach(
-    callback: (
-      key: StoreKey<Persistable>,
-      value: Persistable,
-    ) => void,
-    ns?: string[]
-  ): void {
-    StrictStore.entries(ns).forEach(({ key, value }) => {
-      callback(key, value);
-    });
+  static update<T extends Persistable>(key: StoreKeyWithDefault<T>, updater: (prev: T) => T | null): void;
+  static update<T extends Persistable>(key: StoreKey<T>, updater: (prev: T | null) => T | null): void;
+  static update<T extends Persistable>(key: StoreKey<T>, updater: (prev: T | null) => T | null): void {
+    this.modify(key, updater);
   }
 
   /**
-   * Subscribes to changes of StrictStore-managed keys in localStorage/sessionStorage.
+   * Adds to a number or a bigint value.
    * @public
    *
-   * @param callback - Function to call when a value changes.
-   *   Receives (key, newValue, oldValue)
-   * @param target - (optional) Array of StoreKey or array of namespaces (string[]) to filter the observed changes.
-   *   If omitted, all strict-store keys are obeyed.
-   *
-   * @returns Unsubscribe function.
+   * @param key - StoreKey of a number or a bigint
+   * @param by - (optional) Amount to add, of the type of the value; may be negative (defaults to `1`)
+   * @returns The new value.
    *
    * @example
    * ```ts
-   * // Listen to all changes in the 'user' namespace:
-   * const unsubscribe = StrictStore.onChange((key, newValue, oldValue) => {
-   *   console.log(key, newValue, oldValue);
-   * }, ['user']);
-   *
-   * // Listen only to specific keys:
-   * const userKey = createKey<{name: string}>('user', 'profile');
-   * const settingsKey = createKey<{theme: string}>('user', 'settings');
-   *
-   * StrictStore.onChange(
-   *   (key, newValue, oldValue) => { ... },
-   *   [userKey, settingsKey]
-   * );
-   *
-   * // Later, to stop listening:
-   * unsubscribe();
+   * const nextId = StrictStore.increment(counterKey); // 1, 2, 3...
+   * StrictStore.increment(balanceKey, -250n);
    * ```
    *
-   * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/storage_event
+   * @throws Error if the stored value is not a number or a bigint, or if `by` is not of its type.
+   *
+   * @remarks
+   * - A missing value counts from zero (or from the key default)
    */
-  static onChange(
-    callback: (
-      key: StoreKey<Persistable>,
-      newValue: Persistable,
-      oldValue: Persistable,
-    ) => void,
-    target?: StoreKey<Persistable>[] | string[],
-  ): () => void {
-    const { keyNames, nsPrefixes } = resolveTargets(target)
-
-    const handler = (e: StorageEvent) => {
-      if (!isStrictStoreEvent(e, keyNames, nsPrefixes)) return
-
-      const storeKey = parseStoreKey(e.key!, e.storageArea === localStorage ? 'local' : 'session')
-      if (!storeKey) return
-
-      callback(
-        storeKey,
-        e.newValue !== null ? strictJson.parse(e.newValue) : null,
-        e.oldValue !== null ? strictJson.parse(e.oldValue) : null,
-      )
-    }
+  static increment(key: StoreKey<number>, by?: number): number;
+  static increment(key: StoreKey<bigint>, by: bigint): bigint;
+  static increment(key: StoreKey<number> | StoreKey<bigint>, by: number | bigint = 1): number | bigint {
+    return this.modify<number | bigint>(key, current => {
+      const value = current ?? (typeof by === 'bigint' ? 0n : 0);
 
-    window.addEventListener('storage', handler)
+      if (typeof value !== typeof by || (typeof value !== 'number' && typeof value !== 'bigint')) {
+        throw new Error('StrictStore.increment: Can only increment a number or a bigint by a value of its type');
+      }
 
-    return () => {
-      window.removeEventListener('storage', handler)
-    }
+      return (value as number) + (by as number);
+    })!;
   }
 
   /**
-   * Removes a name-value pair from storage.
+   * Appends items to an array value.
    * @public
    *
-   * @typeParam T - Type parameter for StoreKey consistency
-   * @param keys - StoreKey object identifying item to remove
+   * @typeParam T - Type of the array items (inferred from StoreKey)
+   * @param key - StoreKey of an array
+   * @param items - Items to append
    *
    * @example
    * ```ts
-   * const themeKey = createKey<'light', 'dark'>(
-   *  'app',
-   *  'theme',
-   * );
-   *
-   * StrictStore.remove([themeKey]);
+   * const historyKey = createKey<string[]>('app', 'history');
+   * StrictStore.push(historyKey, '/home', '/cart');
    * ```
    *
+   * @throws Error if the stored value is not an array.
+   *
    * @remarks
-   * - Silent if name doesn't exist
-   * - Namespace-aware operation
+   * - A missing value starts as an empty array (or as the key default)
    */
-  static remove(keys: StoreKey<Persistable>[]): void {
-    for (const key of keys) {
-      const storage = getStorage(key.storeType);
-      storage.removeItem(getFullName(key.ns, key.name));
-    }
+  static push<T extends Persistable>(key: StoreKey<T[]>, ...items: T[]): void {
+    this.modify(key, current => {
+      if (current !== null && !Array.isArray(current)) {
+        throw new Error('StrictStore.push: Can only push into arrays');
+      }
+
+      return [...current ?? [], ...items];
+    });
   }
 
   /**
-   * Checks if a name exists in storage.
+   * Adds values to a `Set` value.
    * @public
    *
-   * @param key - StoreKey object containing ns and name identifier
-   * @returns `true` if the name exists, `false` otherwise
+   * @typeParam T - Type of the set values (inferred from StoreKey)
+   * @param key - StoreKey of a `Set`
+   * @param values - Values to add
    *
    * @example
    * ```ts
-   * const themeKey = createKey<'light', 'dark'>(
+   * const tagsKey = createKey<Set<string>>('app', 'tags');
+   * StrictStore.add(tagsKey, 'new', 'sale');
+   * ```
+   *
+   * @throws Error if the stored value is not a `Set`.
+   *
+   * @remarks
+   * - Values are compared deeply, as stored objects are new instances on every read
+   * - A missing value starts as an empty `Set` (or as the key default)
+   */
+  static add<T extends Persistable>(key: StoreKey<Set<T>>, ...values: T[]): void {
+    this.modify(key, current => {
+      if (current !== null && !(current instanceof Set)) {
+        throw new Error('StrictStore.add: Can only add to sets');
+      }
+
+      const next = new Set(current);
+      for (const value of values)
+        if (!Array.from(next).some(item => isEqual(item, value))) next.add(value);
+
+      return next.size === current?.size ? undefined : next;
+    });
+  }
+
+  /**
+   * Removes values from a `Set` value.
+   * @public
+   *
+   * @typeParam T - Type of the set values (inferred from StoreKey)
+   * @param key - StoreKey of a `Set`
+   * @param values - Values to remove
+   *
+   * @example
+   * ```ts
+   * StrictStore.delete(tagsKey, 'sale');
+   * ```
+   *
+   * @throws Error if the stored value is not a `Set`.
+   *
+   * @remarks
+   * - Values are compared deeply, as stored objects are new instances on every read
+   */
+  static delete<T extends Persistable>(key: StoreKey<Set<T>>, ...values: T[]): void {
+    this.modify(key, current => {
+      if (current === null) return undefined;
+      if (!(current instanceof Set)) {
+        throw new Error('StrictStore.delete: Can only delete from sets');
+      }
+
+      const next = new Set(Array.from(current).filter(item => !values.some(value => isEqual(item, value))));
+
+      return next.size === current.size ? undefined : next;
+    });
+  }
+
+  /**
+   * Sets an entry of a `Map` value.
+   * @public
+   *
+   * @typeParam K - Type of the map keys (inferred from StoreKey)
+   * @typeParam V - Type of the map values (inferred from StoreKey)
+   * @param key - StoreKey of a `Map`
+   * @param entryKey - Key of the entry
+   * @param value - Value of the entry
+   *
+   * @example
+   * ```ts
+   * const pricesKey = createKey<Map<string, bigint>>('shop', 'prices');
+   * StrictStore.setEntry(pricesKey, 'book', 1299n);
+   * ```
+   *
+   * @throws Error if the stored value is not a `Map`.
+   *
+   * @remarks
+   * - Entry keys are compared deeply, as stored objects are new instances on every read
+   * - A missing value starts as an empty `Map` (or as the key default)
+   */
+  static setEntry<K extends Persistable, V extends Persistable>(
+    key: StoreKey<Map<K, V>>,
+    entryKey: K,
+    value: V,
+  ): void {
+    this.modify(key, current => {
+      if (current !== null && !(current instanceof Map)) {
+        throw new Error('StrictStore.setEntry: Can only set entries of maps');
+      }
+
+      const next = new Map(current);
+      const existing = Array.from(next.keys()).find(item => isEqual(item, entryKey));
+      next.set(existing === undefined ? entryKey : existing, value);
+
+      return next;
+    });
+  }
+
+  /**
+   * Removes an entry of a `Map` value.
+   * @public
+   *
+   * @typeParam K - Type of the map keys (inferred from StoreKey)
+   * @param key - StoreKey of a `Map`
+   * @param entryKey - Key of the entry
+   *
+   * @example
+   * ```ts
+   * StrictStore.deleteEntry(pricesKey, 'book');
+   * ```
+   *
+   * @throws Error if the stored value is not a `Map`.
+   *
+   * @remarks
+   * - Entry keys are compared deeply, as stored objects are new instances on every read
+   */
+  static deleteEntry<K extends Persistable>(key: StoreKey<Map<K, Persistable>>, entryKey: K): void {
+    this.modify(key, current => {
+      if (current === null) return undefined;
+      if (!(current instanceof Map)) {
+        throw new Error('StrictStore.deleteEntry: Can only delete entries of maps');
+      }
+
+      const next = new Map(Array.from(current).filter(([item]) => !isEqual(item, entryKey)));
+
+      return next.size === current.size ? undefined : next;
+    });
+  }
+
+  /**
+   * Reads the value of a key (or its default), passes it to `modify` and writes the result back,
+   * keeping the expiration of a stored value. `null` removes the value, `undefined` leaves it as it is.
+   * Returns the resulting value.
+   * */
+  private static modify<T extends Persistable>(
+    key: StoreKey<T>,
+    modify: (current: T | null) => T | null | undefined,
+  ): T | null {
+    this.assertUnencrypted(key);
+
+    const entry = this.readEntry(key);
+    const storedValue = this.readValue(key, entry);
+    const current = storedValue === undefined ? resolveDefault(key) : storedValue;
+    const next = modify(current);
+
+    if (next === undefined) return current;
+    if (next === null) {
+      this.remove([key]);
+      return null;
+    }
+
+    const meta = entry && storedValue !== undefined ? entry.meta : resolveTtl(key.ttl);
+    this.writeValue(key, next, withVersion(key, meta));
+
+    return next;
+  }
+
+  /**
+   * Runs several writes as one atomic operation.
+   * @public
+   *
+   * @typeParam R - Result of the callback
+   * @param callback - Stages writes through the {@link Transaction} it receives
+   * @returns The result of the callback.
+   *
+   * @example
+   * ```ts
+   * StrictStore.transaction(tx => {
+   *   tx.save(cartKey, []);
+   *   tx.merge(userKey, { lastOrder: orderId });
+   *   tx.remove([draftKey]);
+   * });
+   * ```
+   *
+   * @throws Any error of the callback (nothing is written) or of a write (earlier writes are restored).
+   *
+   * @remarks
+   * - Values are serialized while they are staged, so serialization errors abort the transaction
+   *   before anything is written
+   * - `tx.get` and `tx.merge` see the writes staged before them; they never write themselves
+   *   (expired and invalid values are treated as missing, upgraded values are not saved back)
+   * - Change listeners are notified once per changed key, after the commit
+   * - Encrypted keys cannot take part in a transaction
+   */
+  static transaction<R>(callback: (tx: Transaction) => R): R {
+    const store = this;
+    const staged = new Map<string, StagedWrite>();
+    let open = true;
+
+    const id = (key: StoreKey<Persistable>) => `${key.storeType}|${this.fullName(key)}`;
+
+    const stage = (write: StagedWrite) => {
+      if (!open) throw new Error('StrictStore.transaction: The transaction is already finished.');
+
+      this.assertUnencrypted(write.key);
+      staged.set(id(write.key), write);
+    };
+
+    // Reads have no side effects: expired and invalid values are only treated as missing,
+    // and upgraded values are not written back
+    const stagedEntry = (key: StoreKey<Persistable>): DecodedEntry | null => {
+      const write = staged.get(id(key));
+      const raw = write === undefined ? this.storage(key.storeType).get(this.fullName(key)) : write.raw;
+      const entry = raw === null ? null : decodeEntry(raw);
+
+      return entry && !isExpired(entry.meta) ? entry : null;
+    };
+
+    const readOptions = (key: StoreKey<Persistable>) => ({
+      onInvalid: key.onInvalid === 'remove' ? 'null' : key.onInvalid,
+      persist: false,
+    });
+
+    const tx: Transaction = {
+      get(key: StoreKey<Persistable>) {
+        store.assertUnencrypted(key);
+        const value = store.readValue(key, stagedEntry(key), readOptions(key));
+
+        return value === undefined ? resolveDefault(key) : value;
+      },
+      save(key, value, options = {}) {
+        stage({
+          key,
+          raw: store.encode(key, value, withVersion(key, resolveTtl(options.ttl ?? key.ttl))),
+          quota: options.quota,
+        });
+      },
+      merge(key, partial) {
+        store.assertUnencrypted(key);
+        const [merged, meta] = store.mergeEntry(key, partial, stagedEntry(key), readOptions(key));
+        stage({ key, raw: store.encode(key, merged, meta) });
+      },
+      remove(keys) {
+        keys.forEach(key => stage({ key, raw: null }));
+      },
+    } as Transaction;
+
+    try {
+      const result = callback(tx);
+      open = false;
+      this.commit(Array.from(staged.values()));
+
+      return result;
+    } finally {
+      open = false;
+    }
+  }
+
+  /**
+   * Restores the default value of a key by writing it to storage.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey created with a default value
+   *
+   * @example
+   * ```ts
+   * const themeKey = createKey<'light' | 'dark'>('app', 'theme', 'local', { default: 'light' });
+   *
+   * StrictStore.save(themeKey, 'dark');
+   * StrictStore.reset(themeKey);
+   * StrictStore.get(themeKey); // 'light'
+   * ```
+   *
+   * @remarks
+   * - A default factory is called once and its result is saved.
+   */
+  static reset<T extends Persistable>(key: StoreKeyWithDefault<T>): void {
+    this.save(key, resolveDefault(key) as T);
+  }
+
+  /**
+   * Iterates over all StrictStore-managed key-value pairs and executes a callback for each.
+   * @public
+   *
+   * @param callback - Function to execute for each key-value pair.
+   *   Receives (key, value)
+   * @param ns - Optional namespace to filter keys.
+   * @param options - (optional) `descendants`: also iterate over nested namespaces
+   *
+   * @example
+   * ```ts
+   * StrictStore.forEach((key, value) => {
+   *   console.log(key, value, storageType);
+   * }, ['namespace1', 'namespace2']);
+   *
+   * // 'app' and every namespace nested in it
+   * StrictStore.forEach(callback, ['app'], { descendants: true });
+   * ```
+   */
+  static forEach(
+    callback: (
+      key: StoreKey<Persistable>,
+      value: Persistable,
+    ) => void,
+    ns?: Namespace[],
+    options: NamespaceOptions = {},
+  ): void {
+    this.entries(ns, options).forEach(({ key, value }) => {
+      callback(key, value);
+    });
+  }
+
+  /**
+   * Subscribes to changes of StrictStore-managed keys, made by StrictStore in the current tab
+   * or outside it (other tabs, direct storage access) in every storage that reports them.
+   * @public
+   *
+   * @param callback - Function to call when a value changes.
+   *   Receives (key, newValue, oldValue, origin); `origin` is `'local'` for writes of the current tab
+   *   and `'remote'` for the others
+   * @param target - (optional) Array of StoreKey or array of namespaces (string[]) to filter the observed changes.
+   *   If omitted, all strict-store keys are obeyed.
+   * @param options - (optional) `descendants`: namespaces also match their nested namespaces
+   *
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```ts
+   * // Listen to all changes in the 'user' namespace:
+   * const unsubscribe = StrictStore.onChange((key, newValue, oldValue) => {
+   *   console.log(key, newValue, oldValue);
+   * }, ['user']);
+   *
+   * // Listen to 'app/settings' and the namespaces nested in it:
+   * StrictStore.onChange(callback, [['app', 'settings']], { descendants: true });
+   *
+   * // Listen only to specific keys:
+   * const userKey = createKey<{name: string}>('user', 'profile');
+   * const settingsKey = createKey<{theme: string}>('user', 'settings');
+   *
+   * StrictStore.onChange(
+   *   (key, newValue, oldValue) => { ... },
+   *   [userKey, settingsKey]
+   * );
+   *
+   * // Only react to other tabs:
+   * StrictStore.onChange((key, newValue, oldValue, origin) => {
+   *   if (origin === 'remote') refresh();
+   * });
+   *
+   * // Later, to stop listening:
+   * unsubscribe();
+   * ```
+   *
+   * @remarks
+   * - Every mutating method notifies, batch operations once per changed key
+   * - Invalid values are reported as `null` whatever the `onInvalid` policy of the key; listening never removes or throws
+   *
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/Window/storage_event
+   */
+  static onChange(
+    callback: (
+      key: StoreKey<Persistable>,
+      newValue: Persistable,
+      oldValue: Persistable,
+      origin: ChangeOrigin,
+    ) => void,
+    target?: StoreKey<Persistable>[] | Namespace[],
+    { descendants = false }: NamespaceOptions = {},
+  ): () => void {
+    const { keyNames, nsPrefixes } = resolveTargets(target, descendants, this.config.prefix)
+
+    const handler = (storeType: StoreType, e: StorageChange, origin: ChangeOrigin) => {
+      if (!isStrictStoreEvent(e, keyNames, nsPrefixes, this.config.prefix)) return
+
+      const storeKey = parseStoreKey(e.name!, storeType, this.config.prefix)
+      if (!storeKey) return
+
+      const resolvedKey = resolveKey(storeKey)
+      const newEntry = e.newValue !== null ? decodeEntry(e.newValue) : null
+      const oldEntry = e.oldValue !== null ? decodeEntry(e.oldValue) : null
+
+      callback(
+        storeKey,
+        this.readValue(
+          resolvedKey,
+          newEntry && !isExpired(newEntry.meta) ? newEntry : null,
+          { onInvalid: 'null', persist: false },
+        ) ?? null,
+        this.readValue(resolvedKey, oldEntry, { onInvalid: 'null', persist: false }) ?? null,
+        origin,
+      )
+    }
+
+    const unsubscribers = this.storages().map(([storeType, storage]) =>
+      storage.subscribe
+        ? storage.subscribe(change => handler(storeType, change, 'remote'))
+        : () => {}
+    )
+    unsubscribers.push(subscribeLocalChanges(change => {
+      // Changes of other stores using other adapters under the same names
+      if (new Map(this.storages()).get(change.storeType) !== change.storage) return
+
+      handler(change.storeType, change, change.origin ?? 'local')
+    }))
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }
+
+  /**
+   * Subscribes to changes of a single key, with values typed from the key.
+   * @public
+   *
+   * @typeParam T - Type of the stored value (inferred from StoreKey)
+   * @param key - StoreKey object to observe
+   * @param callback - Function to call when the value changes.
+   *   Receives (next, prev, origin); a removed or invalid value is `null`
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```ts
+   * const themeKey = createKey<'light' | 'dark'>('app', 'theme');
+   *
+   * const unsubscribe = StrictStore.subscribe(themeKey, (next, prev) => {
+   *   document.body.dataset.theme = next ?? 'light';
+   * });
+   * ```
+   */
+  static subscribe<T extends Persistable>(
+    key: StoreKey<T>,
+    callback: (next: T | null, prev: T | null, origin: ChangeOrigin) => void,
+  ): () => void {
+    return this.onChange((changedKey, newValue, oldValue, origin) => {
+      if (changedKey.storeType !== key.storeType) return
+
+      callback(newValue as T | null, oldValue as T | null, origin)
+    }, [key])
+  }
+
+  /**
+   * Observes a tuple of keys and calls back with their values, typed like {@link StrictStore.pick} returns them,
+   * whenever at least one of them actually changes.
+   * @public
+   *
+   * @typeParam K - A tuple of StoreKey objects with different value types
+   * @param keys - A tuple of StoreKey objects
+   * @param callback - Function to call with the current and the previous values
+   * @returns Unsubscribe function.
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = StrictStore.watch([themeKey, langKey], ([theme, lang], [prevTheme, prevLang]) => {
+   *   applySettings(theme, lang);
+   * });
+   * ```
+   *
+   * @remarks
+   * - Values are compared deeply, so saving an equal value does not call back
+   * - Keys with a default value report the default instead of `null`
+   */
+  static watch<const K extends readonly StoreKey<Persistable>[]>(
+    keys: K,
+    callback: (values: PickResult<K>, previous: PickResult<K>) => void,
+  ): () => void {
+    let current = this.pick(keys);
+
+    return this.onChange(() => {
+      const next = this.pick(keys);
+      if (isEqual(next, current)) return;
+
+      const previous = current;
+      current = next;
+      callback(next, previous);
+    }, [...keys]);
+  }
+
+  /**
+   * Returns the changes of StrictStore-managed keys as a stream, to combine them with other event sources.
+   * @public
+   *
+   * @param target - (optional) Array of StoreKey or array of namespaces to filter the changes, see {@link StrictStore.onChange}
+   * @param options - (optional) `descendants`: namespaces also match their nested namespaces
+   * @returns A stream of `{ key, newValue, oldValue, storeType, origin }` records that can be subscribed to,
+   *   passed to RxJS `from` or iterated with `for await`.
+   *
+   * @example
+   * ```ts
+   * // RxJS
+   * from(StrictStore.changes([themeKey])).pipe(map(change => change.newValue)).subscribe(applyTheme);
+   *
+   * // Async iteration; leaving the loop stops listening
+   * for await (const change of StrictStore.changes(['cart'])) {
+   *   if (change.origin === 'remote') await syncCart();
+   * }
+   * ```
+   *
+   * @remarks
+   * - Nothing is listened to until the stream is subscribed to or iterated
+   * - Each subscription and each iterator has its own listener, stopped by `unsubscribe` or by ending the iteration
+   * - Iterators buffer the changes made while the loop body is running
+   */
+  static changes<const K extends readonly StoreKey<Persistable>[]>(target: K): ChangeStream<K[number]['__type']>;
+  static changes(target?: Namespace[], options?: NamespaceOptions): ChangeStream;
+  static changes(
+    target?: readonly StoreKey<Persistable>[] | Namespace[],
+    options: NamespaceOptions = {},
+  ): ChangeStream {
+    return createChangeStream(emit => this.onChange((key, newValue, oldValue, origin) => {
+      emit({ key, newValue, oldValue, storeType: key.storeType, origin });
+    }, target && [...target] as StoreKey<Persistable>[] | Namespace[], options));
+  }
+
+  /**
+   * Shares the writes of session keys with the other tabs of the origin, which `sessionStorage` does not do.
+   * @public
+   *
+   * @param target - Array of session StoreKey or array of namespaces whose session keys are synced
+   * @param options - `policy`: `'apply'` to write received values to the `sessionStorage` of the tab,
+   *   `'notify'` to only report them to listeners; `descendants`: namespaces also match their nested namespaces
+   * @returns Function stopping the sync in this tab.
+   *
+   * @example
+   * ```ts
+   * const stepKey = createKey<number>('wizard', 'step', 'session');
+   *
+   * // In every tab of the wizard
+   * StrictStore.syncTabs(['wizard'], { policy: 'apply' });
+   *
+   * StrictStore.subscribe(stepKey, (step, prev, origin) => {
+   *   if (origin === 'remote') showStep(step); // saved in another tab
+   * });
+   * ```
+   *
+   * @throws Error if one of the keys is not a session key.
+   *
+   * @remarks
+   * - Tabs exchange writes only while both of them sync the key, through a `BroadcastChannel` of the store prefix
+   * - Received writes are reported by `onChange` and `subscribe` with the `'remote'` origin and are not sent further
+   * - With `'apply'`, a tab opened later does not receive the values saved before; with `'notify'`,
+   *   `get` keeps returning the value of the tab
+   * - Does nothing where `BroadcastChannel` is not available
+   */
+  static syncTabs(
+    target: StoreKey<Persistable>[] | Namespace[],
+    { policy, descendants = false }: TabSyncOptions,
+  ): () => void {
+    const invalid = target.find((item): item is StoreKey<Persistable> =>
+      typeof item === 'object' && 'storeType' in item && item.storeType !== 'session'
+    )
+    if (invalid) {
+      throw new Error(`StrictStore.syncTabs: "${this.fullName(invalid)}" is not a session key.`)
+    }
+
+    const { keyNames, nsPrefixes } = resolveTargets(target, descendants, this.config.prefix)
+    const isSynced = (change: StorageChange & { storeType: StoreType }) =>
+      change.storeType === 'session' && isStrictStoreEvent(change, keyNames, nsPrefixes, this.config.prefix)
+
+    const channel = openSyncChannel(this.config.prefix, change => {
+      if (!isSynced(change)) return
+
+      const storage = this.storage('session')
+      if (policy === 'notify') {
+        emitLocalChanges([{ ...change, storage, origin: 'remote' }])
+        return
+      }
+
+      const oldValue = storage.get(change.name!)
+      if (oldValue === change.newValue) return
+
+      if (change.newValue === null) storage.remove(change.name!)
+      else storage.set(change.name!, change.newValue)
+
+      emitLocalChanges([{ ...change, oldValue, storage, origin: 'remote' }])
+    })
+    if (!channel) return () => {}
+
+    const unsubscribe = subscribeLocalChanges(change => {
+      if (change.origin === 'remote' || change.storage !== this.storage('session')) return
+
+      if (isSynced(change)) channel.post(change)
+    })
+
+    return () => {
+      unsubscribe()
+      channel.close()
+    }
+  }
+
+  /**
+   * Removes a name-value pair from storage.
+   * @public
+   *
+   * @typeParam T - Type parameter for StoreKey consistency
+   * @param keys - StoreKey object identifying item to remove
+   *
+   * @example
+   * ```ts
+   * const themeKey = createKey<'light', 'dark'>(
+   *  'app',
+   *  'theme',
+   * );
+   *
+   * StrictStore.remove([themeKey]);
+   *
+   * // Remove items of an array value, equal to a value or matching a predicate:
+   * StrictStore.remove(historyKey, '/cart');
+   * StrictStore.remove(todosKey, todo => todo.done);
+   * ```
+   *
+   * @throws Error if an item is given and the stored value is not an array.
+   *
+   * @remarks
+   * - Silent if name doesn't exist
+   * - Namespace-aware operation
+   * - Array items are compared deeply, as stored objects are new instances on every read
+   */
+  static remove(keys: StoreKey<Persistable>[]): void;
+  static remove<T extends Persistable>(key: StoreKey<T[]>, item: T | ((item: T) => boolean)): void;
+  static remove<T extends Persistable>(
+    target: StoreKey<Persistable>[] | StoreKey<T[]>,
+    item?: T | ((item: T) => boolean),
+  ): void {
+    if (Array.isArray(target)) {
+      this.commit(target.map(key => ({ key, raw: null })));
+      return;
+    }
+
+    const matches = typeof item === 'function'
+      ? item as (item: T) => boolean
+      : (value: T) => isEqual(value, item);
+
+    this.modify(target, current => {
+      if (current === null) return undefined;
+      if (!Array.isArray(current)) {
+        throw new Error('StrictStore.remove: Can only remove items from arrays');
+      }
+
+      const next = current.filter(value => !matches(value));
+
+      return next.length === current.length ? undefined : next;
+    });
+  }
+
+  /**
+   * Checks if a name exists in storage.
+   * @public
+   *
+   * @param key - StoreKey object containing ns and name identifier
+   * @returns `true` if the name exists, `false` otherwise
+   *
+   * @example
+   * ```ts
+   * const themeKey = createKey<'light', 'dark'>(
    *  'app',
    *  'theme',
    * );
@@ -402,28 +1542,27 @@ class StrictStore {
    *
    * @remarks
    * - If the value is null, it returns false
+   * - Expired values are removed and reported as missing
+   * - Values that fail the key validator or cannot be parsed are reported as missing, like `get` does
    */
   static has(key: StoreKey<Persistable>): boolean;
   static has(key: StoreKey<Persistable>[]): boolean[];
   static has(key: StoreKey<Persistable> | StoreKey<Persistable>[]): boolean | boolean[] {
     if (Array.isArray(key)) {
-      return key.map(storeKey => {
-        const storage = getStorage(storeKey.storeType);
-        return storage.getItem(getFullName(storeKey.ns, storeKey.name)) !== null;
-      })
+      return key.map(storeKey => this.isPresent(storeKey, this.readEntry(storeKey)))
 
     } else {
-      const storage = getStorage(key.storeType);
-      return storage.getItem(getFullName(key.ns, key.name)) !== null;
+      return this.isPresent(key, this.readEntry(key));
     }
   }
 
   /**
-   * Gets the total number of items in localStorage + sessionStorage, but **only from strict-store**.
+   * Gets the total number of items in all registered storages, but **only from strict-store**.
    * If ns is provided, counts only items from the specified namespaces.
    * @public
    *
    * @param ns - (optional) Array of namespaces to filter by
+   * @param options - (optional) `descendants`: also include nested namespaces
    * @returns Count of all items from strict-store or from the specified namespaces
    *
    * @example
@@ -436,17 +1575,84 @@ class StrictStore {
    *   StrictStore.clear(['user', 'settings']);
    * }
    * ```
+   *
+   * @remarks
+   * - Counts the items `entries` returns: expired and invalid values are left out
    */
-  static size(ns?: string[]): number {
-    return StrictStore.entries(ns).length;
+  static size(ns?: Namespace[], options: NamespaceOptions = {}): number {
+    return this.keys(ns, options).length;
+  }
+
+  /**
+   * Reports the storage space taken by StrictStore-managed items, optionally filtered by namespaces.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to report on
+   * @param options - (optional) `largest`: number of largest values to list (defaults to 5),
+   *   `descendants`: also report on nested namespaces
+   * @returns Bytes per key, per namespace and per storage type, the largest values
+   *   and the estimated remaining space of each storage.
+   *
+   * @example
+   * ```ts
+   * const { namespaces, largest, remaining } = StrictStore.usage();
+   *
+   * console.table(namespaces);
+   * console.log(`${remaining.local} bytes left in localStorage`);
+   * ```
+   *
+   * @remarks
+   * - Sizes are computed on the stored name and string in UTF-16 (2 bytes per character),
+   *   the way Web Storage quotas are counted; expired items still take space and are included
+   * - The remaining space is an estimate based on the usual 5M-character Web Storage quota
+   */
+  static usage(
+    ns?: Namespace[],
+    { largest = 5, ...options }: NamespaceOptions & { largest?: number } = {},
+  ): StorageUsage {
+    const keys: KeyUsage[] = [];
+    const namespaces: Record<string, number> = {};
+    const storages: Partial<Record<StoreType, number>> = {};
+    let total = 0;
+
+    for (const { key, bytes } of this.scan(ns, options, true)) {
+      keys.push({ key, bytes });
+      namespaces[key.ns] = (namespaces[key.ns] ?? 0) + bytes;
+      storages[key.storeType] = (storages[key.storeType] ?? 0) + bytes;
+      total += bytes;
+    }
+
+    const remaining: Partial<Record<StoreType, number | null>> = {};
+    for (const [storeType, storage] of this.storages()) {
+      if (storage.capacity === undefined) {
+        remaining[storeType] = null;
+        continue;
+      }
+
+      let used = 0;
+      for (const name of storage.keys())
+        used += storedBytes(name, storage.get(name) ?? '');
+
+      remaining[storeType] = Math.max(storage.capacity - used, 0);
+    }
+
+    return {
+      total,
+      keys,
+      namespaces,
+      storages,
+      largest: [...keys].sort((a, b) => b.bytes - a.bytes).slice(0, largest),
+      remaining,
+    };
   }
 
   /**
    * Returns all StoreKey objects managed by StrictStore, optionally filtered by namespaces.
-   * Scans both localStorage and sessionStorage for keys with the 'strict-store/' prefix.
+   * Scans all registered storages for keys with the 'strict-store/' prefix.
    *
    * @public
    * @param ns - (optional) Array of namespaces to filter keys (e.g., ['user', 'settings']).
+   * @param options - (optional) `descendants`: also include nested namespaces
    *             If omitted, returns keys from all namespaces.
    * @returns Array of StoreKey objects for all stored items matching the filter.
    *
@@ -464,15 +1670,16 @@ class StrictStore {
    * @remarks
    * - Only includes keys managed by StrictStore (those starting with 'strict-store/').
    * - The returned StoreKey objects include ns, name, storeType, and __type.
+   * - Expired values and values that fail the key validator are left out, like in `entries`.
    */
-  static keys(ns?: string[]): StoreKey<Persistable>[] {
-    return StrictStore.entries(ns).map(({ key } ) =>
-      key
-    )
+  static keys(ns?: Namespace[], options: NamespaceOptions = {}): StoreKey<Persistable>[] {
+    return this.scan(ns, options)
+      .filter(({ key, entry }) => this.isPresent(resolveKey(key), entry))
+      .map(({ key }) => key)
   }
 
   /**
-   * Clears all **strict-store managed** items from localStorage and sessionStorage.
+   * Clears all **strict-store managed** items from all registered storages.
    * @public
    *
    * @param ns - Namespace prefix to clear (e.g., 'user' will remove 'user:settings', 'user:data' etc.)
@@ -481,16 +1688,276 @@ class StrictStore {
    * ```ts
    * StrictStore.clear(); // Remove only strict-store keys
    * StrictStore.clear(['auth']); // Removes all strict-store 'auth:*' keys
+   * StrictStore.clear(['app'], { descendants: true }); // Also removes 'app/settings:*', 'app/settings/ui:*' etc.
    * ```
    *
    * @remarks
    * it only works in StrictStore
    */
-  static clear(ns?: string[]): void {
-    const items = StrictStore.entries(ns);
-    for (const { key } of items)
-      StrictStore.remove([key]);
+  static clear(ns?: Namespace[], options: NamespaceOptions = {}): void {
+    const items = this.scan(ns, options, true);
+    this.remove(items.map(({ key }) => key));
+  }
+
+  /**
+   * Removes all expired StrictStore-managed items.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to sweep. If omitted, all namespaces are swept.
+   * @returns Number of removed items.
+   *
+   * @example
+   * ```ts
+   * // On app startup
+   * StrictStore.purgeExpired();
+   * StrictStore.purgeExpired(['api-cache']);
+   * ```
+   *
+   * @remarks
+   * - Expired items are already invisible to other methods; this only frees the space they occupy.
+   */
+  static purgeExpired(ns?: string[]): number {
+    const expired = this.scan(ns, {}, true).filter(item => item.expired);
+    this.remove(expired.map(({ key }) => key));
+
+    return expired.length;
+  }
+
+  /**
+   * Eagerly upgrades all stored values written with an older schema version and saves them back.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to migrate. If omitted, all namespaces are migrated.
+   * @returns Number of upgraded items.
+   *
+   * @example
+   * ```ts
+   * const userKey = createKey<User>('app', 'user', 'local', {
+   *   version: 2,
+   *   migrations: [
+   *     (v1: UserV1) => ({ ...v1, email: null }),           // 1 -> 2
+   *   ],
+   * });
+   *
+   * // On app startup
+   * StrictStore.migrateAll(['app']);
+   * ```
+   *
+   * @remarks
+   * - Only keys created (with their migrations) before the call are known to this method.
+   * - Values that cannot be upgraded are handled according to the key `onInvalid` policy.
+   */
+  static migrateAll(ns?: string[]): number {
+    let migrated = 0;
+
+    for (const { key, entry } of this.scan(ns)) {
+      const resolvedKey = resolveKey(key);
+      if (!isVersioned(resolvedKey) || (entry.meta.version ?? 0) === keyVersion(resolvedKey))
+        continue;
+
+      if (this.readValue(resolvedKey, entry, { persist: true }) !== undefined)
+        migrated++;
+    }
+
+    return migrated;
+  }
+
+  /**
+   * Exports StrictStore-managed items into a JSON document, to back them up or move them to another browser.
+   * @public
+   *
+   * @param ns - (optional) Array of namespaces to export. If omitted, all items are exported.
+   * @param options - (optional) `descendants`: also export nested namespaces
+   * @returns A versioned snapshot; pass it (or its `JSON.stringify` output) to {@link StrictStore.importSnapshot}.
+   *
+   * @example
+   * ```ts
+   * const snapshot = StrictStore.exportSnapshot(['settings']);
+   * download('settings.json', JSON.stringify(snapshot));
+   * ```
+   *
+   * @remarks
+   * - Values are kept in their serialized form, so bigint, Map, Set, typed arrays and custom types survive
+   * - Expiration and schema version are exported with the values; expired items are left out
+   * - Encrypted values stay encrypted and can only be read back under the same storage name
+   */
+  static exportSnapshot(ns?: Namespace[], options: NamespaceOptions = {}): StoreSnapshot {
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      entries: this.scan(ns, options).map(({ key, entry }) => toSnapshotEntry(key, entry)),
+    };
+  }
+
+  /**
+   * Restores items from a snapshot made by {@link StrictStore.exportSnapshot}.
+   * @public
+   *
+   * @param doc - Snapshot object or its JSON text
+   * @param options - (optional) Import settings:
+   *                  - `mode`: `'merge'` (default) keeps stored values that differ from the snapshot,
+   *                    `'replace'` overwrites them and removes the items missing from the snapshot
+   *                  - `ns`, `descendants`: restrict the import (and the removals) to some namespaces
+   * @returns The imported keys, the keys whose stored value differed from the snapshot,
+   *   and the entries that were skipped with the reason.
+   *
+   * @example
+   * ```ts
+   * const { conflicts, skipped } = StrictStore.importSnapshot(await file.text(), { mode: 'replace' });
+   * ```
+   *
+   * @throws Error if the document is not a snapshot or has an unsupported version; nothing is written.
+   * @throws StrictStoreQuotaError if the items do not fit; nothing is written.
+   *
+   * @remarks
+   * - Entries are checked against the keys created with a validator; invalid ones are skipped
+   * - All writes are applied at once and listeners are notified once per changed key
+   */
+  static importSnapshot(
+    doc: StoreSnapshot | string,
+    { mode = 'merge', ns, descendants = false }: SnapshotImportOptions = {},
+  ): SnapshotImportResult {
+    const { entries } = readSnapshot(doc);
+    const prefix = this.config.prefix;
+    const scope = ns && namespacePrefixes(ns, descendants, prefix);
+    const storages = new Map(this.storages());
+    const now = Date.now();
+
+    const result: SnapshotImportResult = { imported: [], conflicts: [], skipped: [] };
+    const writes: StagedWrite[] = [];
+    const names = new Set<string>();
+
+    for (const entry of entries) {
+      if (!isSnapshotEntry(entry)) {
+        result.skipped.push({ entry, reason: 'malformed' });
+        continue;
+      }
+
+      const fullName = getFullName(entry.ns, entry.name, prefix);
+      if (scope && !isStoreKey(fullName, scope)) continue;
+
+      if (!storages.has(entry.storeType)) {
+        result.skipped.push({ entry, reason: 'unknown-storage' });
+        continue;
+      }
+
+      const meta = snapshotMeta(entry);
+      if (isExpired(meta, now)) {
+        result.skipped.push({ entry, reason: 'expired' });
+        continue;
+      }
+
+      const storeKey = parseStoreKey(fullName, entry.storeType, prefix)!;
+      const key = resolveKey(storeKey);
+
+      let valid: boolean;
+      try {
+        valid = isEncrypted(entry.value) ||
+          decodeValue(key, { valueStr: entry.value, meta }, this.config.serializer).valid;
+      } catch {
+        valid = false;
+      }
+
+      if (!valid) {
+        result.skipped.push({ entry, reason: 'invalid' });
+        continue;
+      }
+
+      const stored = this.readEntry(key);
+      names.add(`${key.storeType}|${fullName}`);
+
+      if (stored !== null && decompressValue(stored.valueStr) !== entry.value) {
+        result.conflicts.push(storeKey);
+        if (mode === 'merge') continue;
+      }
+
+      result.imported.push(storeKey);
+      writes.push({
+        key,
+        raw: encodeEntry(isEncrypted(entry.value) ? entry.value : compressValue(key, entry.value), meta),
+        quota: key.quota,
+      });
+    }
+
+    if (mode === 'replace') {
+      const removals = this.scan(ns, { descendants }, true)
+        .filter(({ key }) => !names.has(`${key.storeType}|${this.fullName(key)}`))
+        .map(({ key }): StagedWrite => ({ key, raw: null }));
+
+      writes.unshift(...removals);
+    }
+
+    this.commit(writes);
+
+    return result;
+  }
+}
+
+/**
+ * Static methods of `StrictStore`, before binding.
+ */
+const storeMethods = Object.entries(Object.getOwnPropertyDescriptors(StrictStore))
+  .filter(([, descriptor]) => typeof descriptor.value === 'function')
+  .map(([name, descriptor]) => [name, descriptor.value as (...args: unknown[]) => unknown] as const);
+
+/**
+ * Binds the static methods to a store, so they also work detached from it,
+ * e.g. `const { save } = StrictStore` or `keys.map(StrictStore.get)`.
+ */
+const bindMethods = (store: typeof StrictStore): void => {
+  for (const [name, method] of storeMethods) {
+    Object.defineProperty(store, name, { value: method.bind(store), writable: true, configurable: true });
+  }
+};
+
+bindMethods(StrictStore);
+
+/**
+ * Creates a store with the full {@link StrictStore} API that keeps its items apart from other stores.
+ * @public
+ *
+ * @param options - (optional) Settings of the store:
+ *                  - `prefix`: prefix of its storage names (defaults to `'strict-store'`)
+ *                  - `storages`: adapters replacing the registered ones for some storage types
+ *                  - `serializer`: `stringify`/`parse` pair replacing the built-in serializer
+ * @returns A store used exactly like `StrictStore`.
+ *
+ * @example
+ * ```ts
+ * // Two micro-frontends on one origin
+ * const checkout = createStrictStore({ prefix: 'checkout' });
+ * const catalog = createStrictStore({ prefix: 'catalog' });
+ *
+ * checkout.save(cartKey, cart); // stored as 'checkout/cart:items'
+ * catalog.get(cartKey); // null
+ * catalog.clear(); // leaves the checkout items alone
+ * ```
+ *
+ * @throws Error if the prefix is empty or contains `/` or `:`.
+ *
+ * @remarks
+ * - `StrictStore` itself is the store with the default settings
+ * - Stores only see, list, clear and report changes of the items under their own prefix
+ * - Keys, custom types, encryption keys and evictable namespaces are shared by all stores
+ */
+function createStrictStore({
+  prefix = DEFAULT_PREFIX,
+  storages = {},
+  serializer = strictJson,
+}: StrictStoreOptions = {}): typeof StrictStore {
+  if (prefix.length === 0 || /[/:]/.test(prefix)) {
+    throw new Error(`createStrictStore: The prefix "${prefix}" must not be empty or contain "/" or ":".`)
   }
+
+  const config: StoreConfig = { prefix, storages: { ...storages }, serializer }
+
+  const store = class extends StrictStore {
+    protected static config = config
+  }
+  bindMethods(store)
+
+  return store
 }
 
 /**
@@ -499,42 +1966,237 @@ class StrictStore {
  *
  * @typeParam T - Type of the stored value, must extend `Persistable`
  *
- * @param ns - Namespace to prevent name collisions (e.g., 'app', 'user')
+ * @param ns - Namespace to prevent name collisions (e.g., 'app', 'user'); nested namespaces are written
+ *   as a path, `'app/settings'` or `['app', 'settings']`
  * @param name - Unique identifier within the ns
  * @param storeType - Determines which Web Storage API to use:
  *                  - 'local': Uses `localStorage`
  *                  - 'session': Uses `sessionStorage`
+ *                  - 'memory': Uses an in-memory storage
+ *                  - any name registered with {@link registerStorage}
+ * @param options - (optional) Extra behaviour for the key:
+ *                  - `validate`: a type guard or a Standard Schema checked on every read
+ *                  - `onInvalid`: `'null'`/`'default'`, `'remove'` or `'throw'` when validation fails
+ *                  - `default`: value or factory returned by `get` when nothing is stored
+ *                  - `ttl`: expiration applied to every write
+ *                  - `version`, `migrations`, `persistMigrated`: schema versioning of the stored value
  *
  * @returns A frozen `StoreKey<T>` object with strict type information
+ *  (a `StoreKeyWithDefault<T>` when a default is given)
+ *
+ * @example
+ * ```ts
+ * const isTheme = (value: unknown): value is 'light' | 'dark' =>
+ *   value === 'light' || value === 'dark';
+ *
+ * const themeKey = createKey<'light' | 'dark'>('app', 'theme', 'local', {
+ *   validate: isTheme,
+ *   onInvalid: 'remove',
+ * });
+ *
+ * const langKey = createKey<'en' | 'ru'>('app', 'lang', 'local', { default: 'en' });
+ * ```
  *
  * @remarks
  * - The returned object is frozen with `as const` for type safety
  * - Namespace and name are combined to form the final storage name (e.g., 'app:counter')
+ * - A namespace path is kept joined with `/` in `key.ns`
+ * - Keys created with options are remembered, so `entries` and `onChange` validate them too
  *
  * @see {@link StrictStore} for usage examples with storage methods
  */
-const createKey = <T extends Persistable>(
-  ns: string,
+function createKey<T extends Persistable>(
+  ns: Namespace,
+  name: string,
+  storeType: StoreType,
+  options: KeyOptions<T> & {
+    readonly default: DefaultValue<T>;
+    readonly onInvalid?: Exclude<InvalidValuePolicy, 'null'>;
+  },
+): StoreKeyWithDefault<T>;
+function createKey<T extends Persistable>(
+  ns: Namespace,
+  name: string,
+  storeType?: StoreType,
+  options?: KeyOptions<T> & {
+    readonly default?: undefined;
+    readonly onInvalid?: Exclude<InvalidValuePolicy, 'default'>;
+  },
+): StoreKey<T>;
+function createKey<T extends Persistable>(
+  namespace: Namespace,
   name: string,
   storeType: StoreType = 'local',
-): StoreKey<T> => {
+  options: KeyOptions<T> = {},
+): StoreKey<T> {
+  const ns = resolveNamespace(namespace)
+
   if (ns.includes(':') || name.includes(':')) {
     throw new Error('Namespace and name must not contain the ":" character.')
   } else if(ns.length === 0 || name.length === 0) {
     throw new Error('The name or namespace cannot be empty.')
+  } else if (ns.split('/').includes('')) {
+    throw new Error('Namespace segments cannot be empty.')
+  } else if (
+    options.version !== undefined &&
+    options.migrations &&
+    options.version < options.migrations.length
+  ) {
+    throw new Error('The key version cannot be lower than the number of migrations.')
+  } else if (options.cookie && storeType !== 'cookie') {
+    throw new Error('Cookie attributes require the "cookie" storage type.')
   }
 
-  return {
+  const key = {
+    ...options,
     ns: ns,
     name: name,
     storeType: storeType,
     __type: {} as T
   } as const satisfies StoreKey<T>
+
+  if (Object.keys(options).length > 0)
+    registerKey(key)
+
+  return key
+}
+
+/**
+ * Declares a field of a {@link defineStore} schema.
+ * @public
+ *
+ * @typeParam T - Type of the value stored in the field, must extend `Persistable`
+ * @param options - (optional) `storage`: storage type of the field (defaults to `'local'`),
+ *   and the options of {@link createKey}
+ * @returns The definition of the field (a `FieldDefinitionWithDefault<T>` when a default is given)
+ *
+ * @example
+ * ```ts
+ * const schema = {
+ *   theme: key<'light' | 'dark'>({ default: 'light' }),
+ *   user: key<User>({ storage: 'session', validate: isUser }),
+ * };
+ * ```
+ */
+function key<T extends Persistable>(
+  options: KeyOptions<T> & {
+    readonly storage?: StoreType;
+    readonly default: DefaultValue<T>;
+    readonly onInvalid?: Exclude<InvalidValuePolicy, 'null'>;
+  },
+): FieldDefinitionWithDefault<T>;
+function key<T extends Persistable>(
+  options?: KeyOptions<T> & {
+    readonly storage?: StoreType;
+    readonly default?: undefined;
+    readonly onInvalid?: Exclude<InvalidValuePolicy, 'default'>;
+  },
+): FieldDefinition<T>;
+function key<T extends Persistable>(
+  options: KeyOptions<T> & { readonly storage?: StoreType } = {},
+): FieldDefinition<T> {
+  return {
+    ...options,
+    __type: {} as T,
+  }
+}
+
+const RESERVED_FIELDS = ['getAll', 'reset', 'clear']
+
+/**
+ * Creates the keys of a schema in a namespace and returns typed accessors for them.
+ * @public
+ *
+ * @typeParam S - Schema of the store, inferred from the fields
+ * @param ns - Namespace of the keys; each field is a key named after it
+ * @param schema - Fields made by {@link key}
+ * @param options - (optional) `store`: store to use instead of `StrictStore`
+ * @returns An object with `get`, `set`, `merge`, `remove` and `subscribe` (and the created `key`) per field,
+ *   and `getAll`, `reset` and `clear` for all fields.
+ *
+ * @example
+ * ```ts
+ * const app = defineStore('app', {
+ *   theme: key<'light' | 'dark'>({ default: 'light' }),
+ *   user: key<User>({ storage: 'session' }),
+ * });
+ *
+ * app.theme.get(); // 'light' | 'dark'
+ * app.user.merge({ name: 'Ada' });
+ * app.getAll(); // { theme: 'light' | 'dark'; user: User | null }
+ * app.reset();
+ * ```
+ *
+ * @throws Error if a field is named `getAll`, `reset` or `clear`, or if {@link createKey} rejects a key.
+ *
+ * @remarks
+ * - The keys are regular StoreKey objects (`app.theme.key`), usable with any `StrictStore` method
+ *   and with the React, Vue and Svelte bindings
+ * - `clear` removes only the fields of the schema, not the other keys of the namespace
+ */
+function defineStore<const S extends StoreSchema>(
+  ns: Namespace,
+  schema: S,
+  { store = StrictStore }: DefineStoreOptions = {},
+): DefinedStore<S> {
+  const reserved = Object.keys(schema).find(field => RESERVED_FIELDS.includes(field))
+  if (reserved) {
+    throw new Error(`defineStore: The field name "${reserved}" is reserved.`)
+  }
+
+  const fields = Object.entries(schema).map(([field, { storage = 'local', __type, ...options }]) => {
+    // The default, if any, is kept on the key; its presence only matters to the types
+    return [field, createKey(ns, field, storage, options as KeyOptions<Persistable> & {
+      default?: undefined;
+      onInvalid?: Exclude<InvalidValuePolicy, 'default'>;
+    })] as const
+  })
+
+  const accessors = Object.fromEntries(fields.map(([field, key]) => [field, {
+    key,
+    get: () => store.get(key),
+    set: (value: Persistable, options?: SaveOptions) => store.save(key, value, options),
+    merge: (partial: DeepPartial<Record<string, Persistable>>) =>
+      store.merge(key as StoreKey<Record<string, Persistable>>, partial),
+    remove: () => store.remove([key]),
+    subscribe: (callback: (next: Persistable | null, prev: Persistable | null, origin: ChangeOrigin) => void) =>
+      store.subscribe<Persistable>(key, callback),
+  } satisfies StoreField<Persistable>]))
+
+  return {
+    ...accessors,
+    getAll: () => {
+      const values = store.pick(fields.map(([, key]) => key))
+      return Object.fromEntries(fields.map(([field], i) => [field, values[i]]))
+    },
+    reset: () => {
+      store.transaction(tx => {
+        for (const [, key] of fields) {
+          if (key.default === undefined) tx.remove([key])
+          else tx.save(key, resolveDefault(key)!)
+        }
+      })
+    },
+    clear: () => {
+      store.remove(fields.map(([, key]) => key))
+    },
+  } as DefinedStore<S>
 }
 
 export {
   StrictStore,
+  AsyncStrictStore,
   createKey,
+  createStrictStore,
+  defineStore,
+  key,
+  registerType,
+  registerEncryption,
+  registerEvictable,
+  registerStorage,
+  createMemoryAdapter,
+  StrictStoreValidationError,
+  StrictStoreQuotaError,
 }
 
 export type {
@@ -543,4 +2205,51 @@ export type {
   StoreType,
   ExtendedPersistable,
   BasicPersistable,
+  CustomPersistable,
+  CustomPersistableTypes,
+  CustomTypeDefinition,
+  InvalidValuePolicy,
+  KeyOptions,
+  StandardSchema,
+  StandardSchemaResult,
+  ValidationIssue,
+  Validator,
+  DefaultValue,
+  StoreKeyWithDefault,
+  SaveOptions,
+  Ttl,
+  Migration,
+  CustomStoreTypes,
+  StorageAdapter,
+  StorageChange,
+  CookieOptions,
+  CompressionOptions,
+  QuotaPolicy,
+  KeyUsage,
+  StorageUsage,
+  ChangeOrigin,
+  Transaction,
+  Namespace,
+  NamespaceOptions,
+  Serializer,
+  StrictStoreOptions,
+  SnapshotEntry,
+  StoreSnapshot,
+  SnapshotImportOptions,
+  SnapshotSkipReason,
+  SnapshotImportResult,
+  BindableStore,
+  StoreChange,
+  ChangeObserver,
+  ChangeSubscription,
+  ChangeStream,
+  TabSyncPolicy,
+  TabSyncOptions,
+  FieldDefinition,
+  FieldDefinitionWithDefault,
+  StoreSchema,
+  StoreField,
+  StoreValues,
+  DefinedStore,
+  DefineStoreOptions,
 }
@@ -0,0 +1,94 @@
+import { isEqual } from 'lodash';
+import { StrictStore } from '@src/strict-store';
+import { BindableStore, Persistable, StoreKey, StoreKeyWithDefault } from '@src/types';
+
+/**
+ * Options of {@link storeFor}.
+ * @public
+ *
+ * @param store - Store to read from and write to (defaults to `StrictStore`),
+ *   e.g. one made by `createStrictStore`
+ */
+export type KeyStoreOptions = {
+  readonly store?: BindableStore;
+};
+
+/**
+ * Svelte store bound to a key; `set(null)` removes the value.
+ * @public
+ */
+export type KeyStore<T> = {
+  subscribe(run: (value: T) => void): () => void;
+  set(value: T | null): void;
+  update(updater: (value: T) => T | null): void;
+};
+
+/**
+ * Returns a Svelte store bound to a key, usable with the `$` prefix.
+ * @public
+ *
+ * @typeParam T - Type of the stored value (inferred from StoreKey)
+ * @param key - StoreKey object to bind
+ * @param options - (optional) `store`: store to use instead of `StrictStore`
+ * @returns A writable store holding the current value (the key default, or `null`, when nothing is stored).
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   const theme = storeFor(themeKey);
+ * </script>
+ *
+ * <button on:click={() => theme.update(prev => prev === 'light' ? 'dark' : 'light')}>{$theme}</button>
+ * ```
+ *
+ * @remarks
+ * - Implements the Svelte store contract without depending on Svelte
+ * - Listens to changes only while it has subscribers, in this tab and in other tabs
+ * - Subscribers are called only when the value changes (deep comparison)
+ */
+export function storeFor<T extends Persistable>(key: StoreKeyWithDefault<T>, options?: KeyStoreOptions): KeyStore<T>;
+export function storeFor<T extends Persistable>(key: StoreKey<T>, options?: KeyStoreOptions): KeyStore<T | null>;
+export function storeFor<T extends Persistable>(
+  key: StoreKey<T>,
+  { store = StrictStore }: KeyStoreOptions = {},
+): KeyStore<T | null> {
+  const subscribers = new Set<{ run: (value: T | null) => void }>();
+  let value: T | null = null;
+  let stop = () => {};
+
+  const refresh = () => {
+    const next = store.get(key);
+    if (isEqual(next, value)) return;
+
+    value = next;
+    subscribers.forEach(subscriber => subscriber.run(value));
+  };
+
+  const set = (next: T | null) => {
+    if (next === null) store.remove([key]);
+    else store.save(key, next);
+  };
+
+  return {
+    subscribe(run) {
+      if (subscribers.size === 0) {
+        value = store.get(key);
+        stop = store.subscribe(key, refresh);
+      }
+
+      // The same function may subscribe more than once
+      const subscriber = { run };
+      subscribers.add(subscriber);
+      run(value);
+
+      return () => {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0) stop();
+      };
+    },
+    set,
+    update(updater) {
+      set(updater(store.get(key)));
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { contextId } from '@src/change-emitter';
+import { StorageChange, StoreType } from '@src/types';
+
+/**
+ * Write of a synced key, as broadcast to other tabs.
+ *
+ * @internal
+ */
+export type SyncedChange = StorageChange & {
+  readonly storeType: StoreType;
+}
+
+type SyncMessage = {
+  readonly source: string;
+  readonly change: SyncedChange;
+}
+
+/**
+ * Channel of {@link StrictStore.syncTabs} between the tabs of an origin.
+ *
+ * @internal
+ */
+export type SyncChannel = {
+  post(change: SyncedChange): void;
+  close(): void;
+}
+
+/**
+ * Opens the sync channel of a store prefix.
+ *
+ * @internal
+ *
+ * @param prefix - Prefix of the store; stores with other prefixes use other channels.
+ * @param receive - Called with the changes broadcast by other tabs.
+ * @returns The channel, or `null` when `BroadcastChannel` is not available.
+ */
+export const openSyncChannel = (
+  prefix: string,
+  receive: (change: SyncedChange) => void,
+): SyncChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null
+
+  const channel = new BroadcastChannel(`${prefix}:sync`)
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+    if (e.data.source !== contextId) receive(e.data.change)
+  }
+
+  return {
+    post(change) {
+      const { storeType, name, newValue, oldValue } = change
+      channel.postMessage({ source: contextId, change: { storeType, name, newValue, oldValue } })
+    },
+    close() {
+      channel.close()
+    },
+  }
+}
@@ -0,0 +1,93 @@
+import { CustomTypeDefinition, Persistable } from '@src/types';
+
+const registry = new Map<string, CustomTypeDefinition<unknown, Persistable>>()
+
+/**
+ * Finds the first registered definition whose `test` accepts the value.
+ *
+ * @internal
+ *
+ * @param value - Raw value passed to the serializer.
+ * @returns The matching definition, or `undefined` if no custom type handles the value.
+ */
+export const findCustomType = (
+  value: unknown
+): CustomTypeDefinition<unknown, Persistable> | undefined => {
+  if (registry.size === 0) return undefined
+
+  for (const definition of registry.values())
+    if (definition.test(value)) return definition
+
+  return undefined
+}
+
+/**
+ * Returns the definition registered under the given name.
+ *
+ * @internal
+ */
+export const getCustomType = (
+  name: string
+): CustomTypeDefinition<unknown, Persistable> | undefined => {
+  return registry.get(name)
+}
+
+/**
+ * Registers a user-defined type so that StrictStore can save and restore it.
+ * @public
+ *
+ * @typeParam T - Runtime type handled by the definition
+ * @typeParam S - Persistable representation the value is stored as
+ * @param definition - Name, detection and conversion functions for the type
+ * @returns Function that removes the registration.
+ *
+ * @example
+ * ```ts
+ * class Money {
+ *   constructor(readonly amount: bigint, readonly currency: string) {}
+ * }
+ *
+ * declare module 'strict-store' {
+ *   interface CustomPersistableTypes {
+ *     money: Money;
+ *   }
+ * }
+ *
+ * registerType({
+ *   name: 'money',
+ *   test: value => value instanceof Money,
+ *   serialize: (value: Money) => ({ amount: value.amount, currency: value.currency }),
+ *   deserialize: value => new Money(value.amount, value.currency),
+ * });
+ *
+ * const priceKey = createKey<Money>('shop', 'price');
+ * StrictStore.save(priceKey, new Money(100n, 'EUR'));
+ * StrictStore.get(priceKey) instanceof Money; // true
+ * ```
+ *
+ * @throws Error if the name is empty or already registered.
+ *
+ * @remarks
+ * - Registered types are checked before the built-in ones, in registration order.
+ * - The serialized representation may itself contain complex or registered types.
+ * - Values stored under a name that is no longer registered cannot be restored;
+ *   they are invalid and follow the `onInvalid` policy of their key.
+ */
+export const registerType = <T, S extends Persistable = Persistable>(
+  definition: CustomTypeDefinition<T, S>
+): () => void => {
+  if (definition.name.length === 0) {
+    throw new Error('registerType: The type name cannot be empty.')
+  } else if (registry.has(definition.name)) {
+    throw new Error(`registerType: The type "${definition.name}" is already registered.`)
+  }
+
+  // The definition only ever receives values its own `test` accepted, or its own serialized form
+  const stored = definition as unknown as CustomTypeDefinition<unknown, Persistable>
+  registry.set(definition.name, stored)
+
+  return () => {
+    if (registry.get(definition.name) === stored)
+      registry.delete(definition.name)
+  }
+}
@@ -1,4 +1,5 @@
-import { TypedArray } from '@src/internal-types';
+import { DeepPartial, PickResult, TypedArray } from '@src/internal-types';
+import type { StrictStore } from '@src/strict-store';
 
 /**
  * Represents all value types that can be safely stored in StrictStore.
@@ -9,7 +10,8 @@ import { TypedArray } from '@src/internal-types';
  */
 export type Persistable =
   | BasicPersistable
-  | ExtendedPersistable;
+  | ExtendedPersistable
+  | CustomPersistable;
 
 /**
  * Extends the set of storable values to include certain advanced JavaScript types.
@@ -18,6 +20,9 @@ export type Persistable =
  * - `Map<Persistable, Persistable>`: A Map with serializable keys and values.
  * - `bigint`: Arbitrary-precision integers.
  * - `TypedArray`: Any of the standard JavaScript typed arrays (e.g., Int8Array, Float32Array, etc.).
+ * - `Date`: Restored as a `Date` instance (invalid dates stay invalid).
+ * - `RegExp`: Restored with its original source and flags.
+ * - `URL`: Restored as a `URL` instance.
  *
  * @remarks
  * These types are internally serialized and deserialized by StrictStore to ensure compatibility with web storage.
@@ -28,13 +33,60 @@ export type ExtendedPersistable =
   | Set<Persistable>
   | Map<Persistable, Persistable>
   | bigint
-  | TypedArray;
+  | TypedArray
+  | Date
+  | RegExp
+  | URL;
+
+/**
+ * Registry of user-defined classes that are accepted as {@link Persistable}.
+ * It is empty by default and is meant to be extended through module augmentation,
+ * together with a runtime {@link registerType} call for each entry.
+ *
+ * @example
+ * ```ts
+ * declare module 'strict-store' {
+ *   interface CustomPersistableTypes {
+ *     money: Money;
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface CustomPersistableTypes {}
+
+/**
+ * Union of all classes declared in {@link CustomPersistableTypes}.
+ *
+ * @public
+ */
+export type CustomPersistable = CustomPersistableTypes[keyof CustomPersistableTypes];
+
+/**
+ * Describes how a user-defined type is detected, serialized and restored.
+ * @public
+ *
+ * @typeParam T - Runtime type handled by the definition
+ * @typeParam S - Persistable representation the value is stored as
+ *
+ * @param name - Unique name written to storage next to the serialized value
+ * @param test - Returns `true` for values that must be handled by this definition
+ * @param serialize - Converts the value into its persistable representation
+ * @param deserialize - Restores the value (including its prototype) from the stored representation
+ */
+export type CustomTypeDefinition<T, S extends Persistable = Persistable> = {
+  readonly name: string;
+  readonly test: (value: unknown) => boolean;
+  readonly serialize: (value: T) => S;
+  readonly deserialize: (value: S) => T;
+};
 
 /**
  * Covers all standard JavaScript primitive types and their serializable containers.
  *
  * - `string`: Any string value.
- * - `number`: Any finite number.
+ * - `number`: Any number, including `NaN`, `Infinity`, `-Infinity` and `-0`.
  * - `boolean`: `true` or `false`.
  * - `null`: The `null` value.
  * - `Persistable[]`: Arrays containing serializable values.
@@ -42,6 +94,7 @@ export type ExtendedPersistable =
  *
  * @remarks
  * Functions, `undefined`, and symbols are **not** allowed.
+ * Numbers that JSON cannot represent are stored in a tagged form and restored losslessly.
  *
  * @public
  */
@@ -69,8 +122,204 @@ export type StoreKey<T extends Persistable> = {
   readonly name: string;
   readonly storeType: StoreType;
   readonly __type: T;
+} & KeyOptions<T>;
+
+/**
+ * Namespace of a key, either as a string or as a path of segments.
+ * Nested namespaces are separated by `/`: `'app/settings'` and `['app', 'settings']` are the same namespace.
+ * @public
+ */
+export type Namespace = string | readonly string[];
+
+/**
+ * Options of methods filtering by namespaces.
+ * @public
+ *
+ * @param descendants - Also match the namespaces nested in the given ones
+ *   (`'app'` then matches `'app/settings'` and `'app/settings/ui'`)
+ */
+export type NamespaceOptions = {
+  readonly descendants?: boolean;
+};
+
+/**
+ * Optional behaviour attached to a {@link StoreKey} by {@link createKey}.
+ * @public
+ *
+ * @typeParam T - Type of the value stored under the key
+ *
+ * @param validate - Checks values read from storage before they are returned
+ * @param onInvalid - What to do when a stored value fails validation (defaults to `'null'`)
+ * @param default - Value (or factory) returned instead of `null` when nothing is stored
+ * @param ttl - Expiration applied to every write of the key
+ * @param version - Current schema version of the value (defaults to `migrations.length`)
+ * @param migrations - Ordered upgrades; the last one produces a value of the current `version`
+ * @param persistMigrated - Write upgraded values back to storage when they are read
+ * @param cookie - Cookie attributes, for keys of the `'cookie'` storage type
+ * @param encryption - AES-GCM key the value is encrypted with (see `StrictStore.getAsync`/`saveAsync`)
+ * @param compress - Compress serialized values, by default those of 1024 characters or more
+ * @param quota - What to do when a write exceeds the storage quota (defaults to `'throw'`)
+ */
+export type KeyOptions<T extends Persistable> = {
+  readonly validate?: Validator<T>;
+  readonly onInvalid?: InvalidValuePolicy;
+  readonly default?: DefaultValue<T>;
+  readonly ttl?: Ttl;
+  readonly version?: number;
+  readonly migrations?: readonly Migration[];
+  readonly persistMigrated?: boolean;
+  readonly cookie?: CookieOptions;
+  readonly encryption?: CryptoKey;
+  readonly compress?: boolean | CompressionOptions;
+  readonly quota?: QuotaPolicy;
+};
+
+/**
+ * Behaviour of a write that exceeds the storage quota.
+ * @public
+ *
+ * @param throw - A {@link StrictStoreQuotaError} is thrown
+ * @param evict - Least recently used entries of evictable namespaces are removed until the value fits;
+ *   a {@link StrictStoreQuotaError} is thrown when nothing is left to evict
+ */
+export type QuotaPolicy = 'throw' | 'evict';
+
+/**
+ * Compression settings of a key.
+ * @public
+ *
+ * @param threshold - Minimum length of the serialized value, in characters, to compress it (defaults to 1024)
+ */
+export type CompressionOptions = {
+  readonly threshold?: number;
+};
+
+/**
+ * Attributes of the cookie holding a value of the `'cookie'` storage type.
+ * @public
+ *
+ * @param path - URL path the cookie is sent for (defaults to `'/'`)
+ * @param domain - Domain the cookie is sent to (defaults to the current host)
+ * @param maxAge - Lifetime in seconds; without it the cookie lasts for the browser session
+ * @param sameSite - Cross-site sending policy
+ * @param secure - Only send the cookie over HTTPS
+ */
+export type CookieOptions = {
+  readonly path?: string;
+  readonly domain?: string;
+  readonly maxAge?: number;
+  readonly sameSite?: 'strict' | 'lax' | 'none';
+  readonly secure?: boolean;
+};
+
+/**
+ * Upgrades a value from one schema version to the next.
+ * @public
+ *
+ * For a key with `version: n` and `k` migrations, `migrations[i]` receives a value stored
+ * with version `n - k + i` and returns it in the shape of version `n - k + i + 1`.
+ * Values saved before the key was versioned have version `0`.
+ * The parameter is annotated with the shape of the older version, e.g. `(v0: UserV0) => ({ ... })`.
+ */
+export type Migration = (value: never) => Persistable;
+
+/**
+ * Options of a single write.
+ * @public
+ *
+ * @param ttl - Expiration of the written value, overrides the key TTL
+ * @param quota - Quota policy of this write, overrides the key policy
+ */
+export type SaveOptions = {
+  readonly ttl?: Ttl;
+  readonly quota?: QuotaPolicy;
+};
+
+/**
+ * Expiration of a stored value. Expired values are treated as missing.
+ * @public
+ *
+ * - `number`: lifetime in milliseconds, counted from the write
+ * - `{ ms, sliding: true }`: lifetime in milliseconds, restarted by `get`/`pick` once less than half of it remains
+ * - `{ expiresAt }`: absolute point in time
+ */
+export type Ttl =
+  | number
+  | { readonly ms: number; readonly sliding?: boolean }
+  | { readonly expiresAt: Date | number };
+
+/**
+ * Default value of a key, or a factory called each time the default is needed.
+ * Prefer a factory for objects and collections, so callers never share one mutable instance.
+ * @public
+ */
+export type DefaultValue<T extends Persistable> = T | (() => T);
+
+/**
+ * A {@link StoreKey} created with a default value.
+ * `StrictStore.get` and `StrictStore.pick` return `T` instead of `T | null` for such keys.
+ * @public
+ */
+export type StoreKeyWithDefault<T extends Persistable> = StoreKey<T> & {
+  readonly default: DefaultValue<T>;
+};
+
+/**
+ * Runtime check for values read from storage.
+ * @public
+ *
+ * Either a predicate (usually a type guard) or any schema implementing the
+ * {@link https://github.com/standard-schema/standard-schema | Standard Schema} interface
+ * (zod, valibot, arktype, ...). Only synchronous schemas are supported.
+ */
+export type Validator<T> =
+  | ((value: unknown) => boolean)
+  | StandardSchema<T>;
+
+/**
+ * Minimal structural type of a Standard Schema v1 object.
+ * @public
+ */
+export type StandardSchema<T> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) =>
+      | StandardSchemaResult<T>
+      | Promise<StandardSchemaResult<T>>;
+  };
 };
 
+/**
+ * Result returned by a Standard Schema `validate` call.
+ * @public
+ */
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: readonly ValidationIssue[] };
+
+/**
+ * Describes why a value was rejected by a {@link Validator}.
+ * @public
+ */
+export type ValidationIssue = {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+};
+
+/**
+ * What StrictStore does when a stored value fails validation or cannot be parsed.
+ * @public
+ *
+ * @param null - The value is treated as missing (`get` returns `null`, `entries` skips it).
+ *   Default policy of keys without a default value.
+ * @param default - `get` returns the key default, `entries` skips the value.
+ *   Default policy of keys with a default value; only allowed for them.
+ * @param remove - The value is removed from storage and treated as missing
+ * @param throw - A {@link StrictStoreValidationError} is thrown
+ */
+export type InvalidValuePolicy = 'null' | 'default' | 'remove' | 'throw';
+
 /**
  * Specifies the type of web storage to use for persistence.
  * @public
@@ -85,6 +334,16 @@ export type StoreKey<T extends Persistable> = {
  *   - Scoped to current browsing session
  *   - Useful for sensitive/short-lived data
  *
+ * @param memory - Uses an in-memory storage:
+ *   - Data lives as long as the current JavaScript context
+ *   - Available everywhere, including Node and SSR
+ *
+ * @param cookie - Uses `document.cookie`:
+ *   - Data is sent to the server with every request
+ *   - Limited to 4KB per value, attributes are set per key with {@link CookieOptions}
+ *
+ * Additional names can be declared in {@link CustomStoreTypes} and registered with {@link registerStorage}.
+ *
  * @remarks
  * - Defaults to 'local' when not specified
  * - Consider security implications when choosing storage type
@@ -93,4 +352,385 @@ export type StoreKey<T extends Persistable> = {
  * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Web_Storage_API | MDN Web Storage API}
  * @see {@link createKey} for usage with store keys
  */
-export type StoreType = 'local' | 'session';
+export type StoreType = 'local' | 'session' | 'memory' | 'cookie' | keyof CustomStoreTypes;
+
+/**
+ * Registry of additional {@link StoreType} names.
+ * It is empty by default and is meant to be extended through module augmentation,
+ * together with a runtime {@link registerStorage} call for each entry.
+ *
+ * @example
+ * ```ts
+ * declare module 'strict-store' {
+ *   interface CustomStoreTypes {
+ *     extension: true;
+ *   }
+ * }
+ *
+ * registerStorage('extension', myExtensionStorageAdapter);
+ * ```
+ *
+ * @public
+ */
+export interface CustomStoreTypes {}
+
+/**
+ * Synchronous key-value backend used by StrictStore for a {@link StoreType}.
+ * @public
+ *
+ * @param get - Returns the stored string, or `null` if there is none
+ * @param set - Stores a string under the given name
+ * @param remove - Removes the stored string; silent if it does not exist
+ * @param keys - Returns a snapshot of all stored names
+ * @param length - Number of stored names
+ * @param subscribe - (optional) Notifies about changes made outside StrictStore
+ *   (e.g. by another tab); returns an unsubscribe function
+ * @param capacity - (optional) Estimated capacity in bytes, used to report the remaining space
+ */
+export type StorageAdapter = {
+  get(name: string): string | null;
+  set(name: string, value: string): void;
+  remove(name: string): void;
+  keys(): string[];
+  readonly length: number;
+  subscribe?(listener: (change: StorageChange) => void): () => void;
+  readonly capacity?: number;
+};
+
+/**
+ * Change reported by {@link StorageAdapter.subscribe}.
+ * @public
+ *
+ * @param name - Changed storage name (`null` when the whole storage was cleared)
+ * @param newValue - New stored string, or `null` if it was removed
+ * @param oldValue - Previous stored string, or `null` if there was none
+ */
+export type StorageChange = {
+  readonly name: string | null;
+  readonly newValue: string | null;
+  readonly oldValue: string | null;
+};
+
+/**
+ * Space taken by one stored value.
+ * @public
+ *
+ * @param key - Key of the value
+ * @param bytes - Size of the storage name and stored string in UTF-16
+ */
+export type KeyUsage = {
+  readonly key: StoreKey<Persistable>;
+  readonly bytes: number;
+};
+
+/**
+ * Storage usage report returned by `StrictStore.usage`.
+ * @public
+ *
+ * @param total - Bytes taken by all reported values
+ * @param keys - Bytes per key
+ * @param namespaces - Bytes per namespace
+ * @param storages - Bytes per storage type
+ * @param largest - The largest values, biggest first
+ * @param remaining - Estimated free bytes per storage type, `null` when the capacity is unknown.
+ *   Counts everything in the storage, including data not managed by StrictStore
+ */
+export type StorageUsage = {
+  readonly total: number;
+  readonly keys: readonly KeyUsage[];
+  readonly namespaces: Readonly<Record<string, number>>;
+  readonly storages: Readonly<Partial<Record<StoreType, number>>>;
+  readonly largest: readonly KeyUsage[];
+  readonly remaining: Readonly<Partial<Record<StoreType, number | null>>>;
+};
+
+/**
+ * Where a reported change comes from.
+ * @public
+ *
+ * @param local - Made by StrictStore in the current tab
+ * @param remote - Made in another tab, or outside StrictStore
+ */
+export type ChangeOrigin = 'local' | 'remote';
+
+/**
+ * Stages writes of `StrictStore.transaction`; nothing is written before the callback returns.
+ * @public
+ *
+ * @param get - Reads a value, including writes staged before
+ * @param save - Stages a write, see `StrictStore.save`
+ * @param merge - Stages a merge, see `StrictStore.merge`
+ * @param remove - Stages removals, see `StrictStore.remove`
+ */
+export type Transaction = {
+  get<T extends Persistable>(key: StoreKeyWithDefault<T>): T;
+  get<T extends Persistable>(key: StoreKey<T>): T | null;
+  save<T extends StoreKey<Persistable>>(key: T, value: T['__type'], options?: SaveOptions): void;
+  merge<T extends Record<string, Persistable>>(key: StoreKey<T>, partial: DeepPartial<T>): void;
+  remove(keys: StoreKey<Persistable>[]): void;
+};
+
+/**
+ * Converts values to the strings kept in storage and back.
+ * @public
+ *
+ * @param stringify - Serializes a value
+ * @param parse - Restores a value serialized by `stringify`
+ */
+export type Serializer = {
+  stringify(value: Persistable): string;
+  parse(text: string): Persistable;
+};
+
+/**
+ * Settings of a store created with `createStrictStore`.
+ * @public
+ *
+ * @param prefix - Prefix of the storage names of the store (defaults to `'strict-store'`);
+ *   must not be empty or contain `/` or `:`
+ * @param storages - Adapters used by the store instead of the registered ones, by storage type;
+ *   other storage types use the registered adapters
+ * @param serializer - Serializer of the store values (defaults to the built-in one, which supports
+ *   every {@link Persistable} type and the types added with `registerType`)
+ */
+export type StrictStoreOptions = {
+  readonly prefix?: string;
+  readonly storages?: Partial<Record<StoreType, StorageAdapter>>;
+  readonly serializer?: Serializer;
+};
+
+/**
+ * Item of a {@link StoreSnapshot}.
+ * @public
+ *
+ * @param ns - Namespace of the key
+ * @param name - Name of the key
+ * @param storeType - Storage type of the key
+ * @param value - Serialized value (still encrypted for encrypted keys)
+ * @param expiresAt - Expiration timestamp, if the value expires
+ * @param sliding - Sliding TTL in milliseconds, if the expiration is sliding
+ * @param version - Schema version the value was written with
+ */
+export type SnapshotEntry = {
+  readonly ns: string;
+  readonly name: string;
+  readonly storeType: StoreType;
+  readonly value: string;
+  readonly expiresAt?: number;
+  readonly sliding?: number;
+  readonly version?: number;
+};
+
+/**
+ * JSON document produced by `StrictStore.exportSnapshot`.
+ * @public
+ *
+ * @param format - Always `'strict-store/snapshot'`
+ * @param version - Version of the document format
+ * @param createdAt - ISO date of the export
+ * @param entries - Exported items
+ */
+export type StoreSnapshot = {
+  readonly format: 'strict-store/snapshot';
+  readonly version: 1;
+  readonly createdAt: string;
+  readonly entries: readonly SnapshotEntry[];
+};
+
+/**
+ * Options of `StrictStore.importSnapshot`.
+ * @public
+ *
+ * @param mode - `'merge'` (default) keeps stored values that differ from the snapshot,
+ *   `'replace'` overwrites them and removes the items the snapshot does not have
+ * @param ns - Namespaces to import; other entries are ignored and, with `'replace'`, left alone
+ */
+export type SnapshotImportOptions = NamespaceOptions & {
+  readonly mode?: 'merge' | 'replace';
+  readonly ns?: Namespace[];
+};
+
+/**
+ * Why an entry of a snapshot was not imported.
+ * @public
+ *
+ * @param malformed - The entry does not have the shape of a {@link SnapshotEntry}
+ * @param unknown-storage - The storage type is not available
+ * @param expired - The value expired since the export
+ * @param invalid - The value cannot be read or fails the validator of its key
+ */
+export type SnapshotSkipReason = 'malformed' | 'unknown-storage' | 'expired' | 'invalid';
+
+/**
+ * Outcome of `StrictStore.importSnapshot`.
+ * @public
+ *
+ * @param imported - Keys whose value is now the one of the snapshot
+ * @param conflicts - Keys whose stored value differed from the snapshot (kept with `'merge'`, overwritten with `'replace'`)
+ * @param skipped - Entries that were not imported, with the reason
+ */
+export type SnapshotImportResult = {
+  readonly imported: StoreKey<Persistable>[];
+  readonly conflicts: StoreKey<Persistable>[];
+  readonly skipped: { readonly entry: unknown; readonly reason: SnapshotSkipReason }[];
+};
+
+/**
+ * Methods of a store used by the framework bindings; `StrictStore` and the stores made
+ * by `createStrictStore` provide them.
+ * @public
+ */
+export type BindableStore = Pick<typeof StrictStore, 'get' | 'pick' | 'save' | 'remove' | 'subscribe' | 'onChange'>;
+
+/**
+ * Change record of `StrictStore.changes`.
+ * @public
+ *
+ * @typeParam T - Type of the changed value
+ * @param key - Changed key
+ * @param newValue - Value after the change, `null` when it was removed
+ * @param oldValue - Value before the change, `null` when there was none
+ * @param storeType - Storage type of the key
+ * @param origin - Whether the change was made in this tab or elsewhere
+ */
+export type StoreChange<T extends Persistable = Persistable> = {
+  readonly key: StoreKey<T>;
+  readonly newValue: T | null;
+  readonly oldValue: T | null;
+  readonly storeType: StoreType;
+  readonly origin: ChangeOrigin;
+};
+
+/**
+ * Observer of a {@link ChangeStream}; `error` and `complete` are never called, as changes never end.
+ * @public
+ */
+export type ChangeObserver<T extends Persistable = Persistable> = {
+  next?(change: StoreChange<T>): void;
+  error?(error: unknown): void;
+  complete?(): void;
+};
+
+/**
+ * Subscription to a {@link ChangeStream}.
+ * @public
+ */
+export type ChangeSubscription = {
+  unsubscribe(): void;
+  readonly closed: boolean;
+};
+
+/**
+ * Stream of changes, following the Observable interop protocol (`subscribe` and `Symbol.observable`,
+ * or `'@@observable'` where the symbol does not exist) and the async iteration protocol.
+ * @public
+ *
+ * @typeParam T - Type of the changed values
+ */
+export type ChangeStream<T extends Persistable = Persistable> = AsyncIterable<StoreChange<T>> & {
+  subscribe(observer: ChangeObserver<T> | ((change: StoreChange<T>) => void)): ChangeSubscription;
+  '@@observable'(): ChangeStream<T>;
+};
+
+/**
+ * What tabs do with the writes they receive through `StrictStore.syncTabs`.
+ * @public
+ *
+ * @param apply - Write the value to the storage of the tab, then notify listeners
+ * @param notify - Only notify listeners; the storage of the tab keeps its value
+ */
+export type TabSyncPolicy = 'apply' | 'notify';
+
+/**
+ * Options of `StrictStore.syncTabs`.
+ * @public
+ *
+ * @param policy - What receiving tabs do with the writes, see {@link TabSyncPolicy}
+ */
+export type TabSyncOptions = NamespaceOptions & {
+  readonly policy: TabSyncPolicy;
+};
+
+/**
+ * Field of a `defineStore` schema, made by `key`: the options of the key created for it.
+ * @public
+ *
+ * @typeParam T - Type of the value stored in the field
+ * @param storage - Storage type of the key (defaults to `'local'`)
+ */
+export type FieldDefinition<T extends Persistable> = KeyOptions<T> & {
+  readonly storage?: StoreType;
+  readonly __type: T;
+};
+
+/**
+ * A {@link FieldDefinition} with a default value.
+ * @public
+ */
+export type FieldDefinitionWithDefault<T extends Persistable> = FieldDefinition<T> & {
+  readonly default: DefaultValue<T>;
+};
+
+/**
+ * Fields of a `defineStore` store by name.
+ * @public
+ */
+export type StoreSchema = Record<string, FieldDefinition<Persistable>>;
+
+/**
+ * Typed accessors of a `defineStore` field, bound to its key.
+ * @public
+ *
+ * @typeParam T - Type of the value stored in the field
+ * @typeParam V - Type returned by `get`: `T` for fields with a default value, `T | null` otherwise
+ */
+export type StoreField<T extends Persistable, V = T | null> = {
+  readonly key: StoreKey<T>;
+  get(): V;
+  set(value: T, options?: SaveOptions): void;
+  merge(partial: [T] extends [Record<string, Persistable>] ? DeepPartial<T> : never): void;
+  remove(): void;
+  subscribe(callback: (next: T | null, prev: T | null, origin: ChangeOrigin) => void): () => void;
+};
+
+/**
+ * Values of all fields of a schema, as returned by `getAll`.
+ * @public
+ */
+export type StoreValues<S extends StoreSchema> = {
+  [F in keyof S]: S[F] extends FieldDefinitionWithDefault<infer T>
+    ? T
+    : S[F] extends FieldDefinition<infer T>
+      ? T | null
+      : never
+};
+
+/**
+ * Store returned by `defineStore`: the accessors of every field and methods for all of them.
+ * @public
+ *
+ * @param getAll - Reads the values of all fields
+ * @param reset - Writes the default values back and removes the fields without one, in one transaction
+ * @param clear - Removes the values of all fields
+ */
+export type DefinedStore<S extends StoreSchema> = {
+  readonly [F in keyof S]: S[F] extends FieldDefinitionWithDefault<infer T>
+    ? StoreField<T, T>
+    : S[F] extends FieldDefinition<infer T>
+      ? StoreField<T>
+      : never
+} & {
+  getAll(): StoreValues<S>;
+  reset(): void;
+  clear(): void;
+};
+
+/**
+ * Options of `defineStore`.
+ * @public
+ *
+ * @param store - Store the fields are kept in (defaults to `StrictStore`), e.g. one made by `createStrictStore`
+ */
+export type DefineStoreOptions = {
+  readonly store?: typeof StrictStore;
+};
@@ -1,15 +1,69 @@
 import { mergeWith } from 'lodash';
 import { TypedArray } from '@src/internal-types';
-import { StoreType, Persistable, StoreKey } from '@src/types';
+import { StoreType, Persistable, StoreKey, StorageChange, Namespace } from '@src/types';
 
-export const KEY_PATTERN = /^strict-store\/([^:]+):(.+)$/
+export const DEFAULT_PREFIX = 'strict-store'
 
-export const getStorage = (type: StoreType): Storage => {
-  return type === 'local' ? localStorage : sessionStorage
+export const KEY_PATTERN = /^([^/:]+)\/([^:]+):(.+)$/
+
+export const getFullName = (ns: string, name: string, prefix = DEFAULT_PREFIX): string => {
+  return `${prefix}/${ns}:${name}`
+}
+
+/**
+ * Joins a namespace path into the namespace string kept in keys (`['app', 'settings']` → `'app/settings'`).
+ *
+ * @internal
+ */
+export const resolveNamespace = (ns: Namespace): string => {
+  return typeof ns === 'string' ? ns : ns.join('/')
+}
+
+/**
+ * Builds the storage name prefixes matching the given namespaces and, optionally, their descendants.
+ *
+ * @internal
+ *
+ * @example
+ * ```ts
+ * namespacePrefixes(['app'], true);
+ * // → ['strict-store/app:', 'strict-store/app/']
+ * ```
+ */
+export const namespacePrefixes = (
+  ns: readonly Namespace[],
+  descendants = false,
+  prefix = DEFAULT_PREFIX,
+): string[] => {
+  return ns.flatMap(n => {
+    const path = resolveNamespace(n)
+
+    return descendants
+      ? [`${prefix}/${path}:`, `${prefix}/${path}/`]
+      : [`${prefix}/${path}:`]
+  })
 }
 
-export const getFullName = (ns: string, name: string): string => {
-  return `strict-store/${ns}:${name}`
+/**
+ * Size of a stored name-value pair in bytes, as Web Storage keeps strings in UTF-16.
+ *
+ * @internal
+ */
+export const storedBytes = (name: string, value: string): number => {
+  return (name.length + value.length) * 2
+}
+
+/**
+ * Returns the default value of a key, calling the factory if one was given.
+ *
+ * @internal
+ */
+export const resolveDefault = <T extends Persistable>(key: StoreKey<T>): T | null => {
+  if (key.default === undefined) return null
+
+  return typeof key.default === 'function'
+    ? (key.default as () => T)()
+    : key.default
 }
 
 export function isTypedArray(val: unknown): val is TypedArray {
@@ -30,6 +84,9 @@ export function deepMerge<T, S>(target: T, source: S): T & S {
     else if (isTypedArray(objValue) && isTypedArray(srcValue))
       return srcValue;
 
+    else if (srcValue instanceof Date || srcValue instanceof RegExp || srcValue instanceof URL)
+      return srcValue;
+
     return undefined; // default merge
   });
 }
@@ -42,7 +99,7 @@ export function deepMerge<T, S>(target: T, source: S): T & S {
  *
  * @internal
  *
- * @param raw - Raw storage key string as retrieved from `localStorage.key()` or `sessionStorage.key()`.
+ * @param raw - Raw storage key string as retrieved from `StorageAdapter.keys()`.
  * @param prefixes - One or more allowed StrictStore prefixes to match against.
  * @returns `true` if the key belongs to StrictStore and matches any prefix, otherwise `false`.
  *
@@ -69,7 +126,8 @@ export const isStoreKey= (raw: string, prefixes: readonly string[]): boolean =>
  * @internal
  *
  * @param raw - Raw storage key string (e.g. `"strict-store/user:profile"`).
- * @param storeType - Storage type (`'local'` or `'session'`) associated with the key.
+ * @param storeType - Storage type (e.g. `'local'` or `'session'`) associated with the key.
+ * @param prefix - Prefix of the store the key belongs to (defaults to `'strict-store'`).
  * @returns A {@link StoreKey} object if the raw key matches the expected format, otherwise `null`.
  *
  * @example
@@ -85,12 +143,13 @@ export const isStoreKey= (raw: string, prefixes: readonly string[]): boolean =>
  */
 export const parseStoreKey = (
   raw: string,
-  storeType: StoreType
+  storeType: StoreType,
+  prefix = DEFAULT_PREFIX,
 ): StoreKey<Persistable> | null =>{
   const m = KEY_PATTERN.exec(raw)
-  if (!m) return null
+  if (!m || m[1] !== prefix) return null
 
-  const [, nsPart, namePart] = m
+  const [, , nsPart, namePart] = m
   return {
     ns: nsPart,
     name: namePart,
@@ -104,13 +163,16 @@ export const parseStoreKey = (
  *
  * The `target` parameter can be:
  * - An array of {@link StoreKey} objects → will be resolved into exact key names.
- * - An array of namespaces (`string[]`) → will be resolved into namespace prefixes.
+ * - An array of namespaces (strings or paths) → will be resolved into namespace prefixes,
+ *   including the descendants of each namespace when `descendants` is set.
  * - `undefined` → means "listen to all strict-store keys".
  * - An empty array → means 'do not listen to anything'.
  *
  * @internal
  *
  * @param target - Keys or namespaces to listen for. If omitted, all keys are observed.
+ * @param descendants - Whether namespaces also match their nested namespaces.
+ * @param prefix - Prefix of the store the keys belong to.
  * @returns An object with two optional arrays:
  * - `keyNames` — Fully qualified strict-store key names.
  * - `nsPrefixes` — Namespace prefixes (e.g. `'strict-store/user:'`).
@@ -127,57 +189,63 @@ export const parseStoreKey = (
  * // nsPrefixes = ['strict-store/user:']
  * ```
  */
-export const resolveTargets = (target?: StoreKey<Persistable>[] | string[]) => {
+export const resolveTargets = (
+  target?: StoreKey<Persistable>[] | Namespace[],
+  descendants = false,
+  prefix = DEFAULT_PREFIX,
+) => {
   if (!target) return { keyNames: undefined, nsPrefixes: undefined }
   if (target.length === 0) return { keyNames: [], nsPrefixes: [] }
 
-  if (typeof target[0] === 'string') {
+  if (typeof target[0] === 'string' || Array.isArray(target[0])) {
     return {
       keyNames: undefined,
-      nsPrefixes: (target as string[]).map(ns => `strict-store/${ns}:`),
+      nsPrefixes: namespacePrefixes(target as Namespace[], descendants, prefix),
     };
   }
 
   return {
     keyNames: (target as StoreKey<Persistable>[]).map(k =>
-      getFullName(k.ns, k.name),
+      getFullName(k.ns, k.name, prefix),
     ),
     nsPrefixes: undefined,
   };
 }
 
 /**
- * Determines whether a given {@link StorageEvent} is relevant to StrictStore.
+ * Determines whether a given {@link StorageChange} is relevant to StrictStore.
  *
- * A storage event is considered relevant if:
- * - Its key is non-null and starts with `"strict-store/"`.
+ * A storage change is considered relevant if:
+ * - Its name is non-null and starts with `"strict-store/"`.
  * - It matches at least one of the provided filters (`keyNames` or `nsPrefixes`), if they are defined.
  *
  * @internal
  *
- * @param e - The {@link StorageEvent} fired by the browser.
+ * @param e - The {@link StorageChange} reported by a storage adapter.
  * @param keyNames - Optional list of fully qualified strict-store keys to match.
  * @param nsPrefixes - Optional list of namespace prefixes to match.
+ * @param prefix - Prefix of the store the event must belong to.
  * @returns `true` if the event corresponds to a StrictStore-managed key and passes all filters, otherwise `false`.
  *
  * @example
  * ```ts
- * window.addEventListener('storage', e => {
- *   if (StrictStore.isStrictStoreEvent(e, ['strict-store/app:counter'])) {
+ * adapter.subscribe(change => {
+ *   if (isStrictStoreEvent(change, ['strict-store/app:counter'])) {
  *     console.log('Counter key changed');
  *   }
  * });
  * ```
  */
 export const isStrictStoreEvent = (
-  e: StorageEvent,
+  e: StorageChange,
   keyNames?: string[],
   nsPrefixes?: string[],
+  prefix = DEFAULT_PREFIX,
 ): boolean => {
-  if (!e.key || !e.key.startsWith('strict-store/')) return false
-  else if (keyNames && keyNames.length > 0 && !keyNames.includes(e.key)) return false
+  if (!e.name || !e.name.startsWith(`${prefix}/`)) return false
+  else if (keyNames && keyNames.length > 0 && !keyNames.includes(e.name)) return false
 
   return !(nsPrefixes &&
     nsPrefixes.length > 0 &&
-    !nsPrefixes.some(prefix => e.key!.startsWith(prefix)));
+    !nsPrefixes.some(prefix => e.name!.startsWith(prefix)));
 }
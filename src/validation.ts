@@ -0,0 +1,39 @@
+import { Persistable, StandardSchema, ValidationIssue, Validator } from '@src/types';
+
+export type ValidationResult<T> =
+  | { valid: true, value: T }
+  | { valid: false, issues: readonly ValidationIssue[] };
+
+const isStandardSchema = <T>(validator: Validator<T>): validator is StandardSchema<T> => {
+  return typeof validator === 'object' && validator !== null && '~standard' in validator
+}
+
+/**
+ * Runs a predicate or a Standard Schema against a value read from storage.
+ *
+ * @internal
+ *
+ * @param validator - Validator attached to the key.
+ * @param value - Deserialized value.
+ * @returns The (possibly transformed by the schema) value, or the list of issues.
+ *
+ * @throws Error if the schema validates asynchronously.
+ */
+export const validateValue = <T extends Persistable>(
+  validator: Validator<T>,
+  value: unknown,
+): ValidationResult<T> => {
+  if (!isStandardSchema(validator)) {
+    return validator(value)
+      ? { valid: true, value: value as T }
+      : { valid: false, issues: [{ message: 'Value rejected by the validator' }] }
+  }
+
+  const result = validator['~standard'].validate(value)
+  if (result instanceof Promise)
+    throw new Error('StrictStore: Asynchronous schemas are not supported.')
+
+  return result.issues
+    ? { valid: false, issues: result.issues }
+    : { valid: true, value: result.value }
+}
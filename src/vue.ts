@@ -0,0 +1,74 @@
+import { customRef, getCurrentScope, onScopeDispose, Ref } from 'vue';
+import { isEqual } from 'lodash';
+import { StrictStore } from '@src/strict-store';
+import { BindableStore, Persistable, StoreKey, StoreKeyWithDefault } from '@src/types';
+
+/**
+ * Options of the Vue composables.
+ * @public
+ *
+ * @param store - Store to read from and write to (defaults to `StrictStore`),
+ *   e.g. one made by `createStrictStore`
+ */
+export type StoreRefOptions = {
+  readonly store?: BindableStore;
+};
+
+/**
+ * Returns a writable ref bound to a key.
+ * @public
+ *
+ * @typeParam T - Type of the stored value (inferred from StoreKey)
+ * @param key - StoreKey object to bind
+ * @param options - (optional) `store`: store to use instead of `StrictStore`
+ * @returns A ref holding the current value (the key default, or `null`, when nothing is stored);
+ *   assigning it saves the value, assigning `null` removes it.
+ *
+ * @example
+ * ```ts
+ * const themeKey = createKey<'light' | 'dark'>('app', 'theme', 'local', { default: 'light' });
+ *
+ * const theme = useStoreRef(themeKey); // Ref<'light' | 'dark'>
+ * theme.value = 'dark'; // StrictStore.save(themeKey, 'dark')
+ * ```
+ *
+ * @remarks
+ * - Updates on changes made in this tab (by other refs or plain `StrictStore` calls) and in other tabs
+ * - The value keeps its reference while it stays deeply equal; mutate it through a new assignment
+ * - Called in a component `setup` (or an effect scope), the ref stops listening when the scope is disposed
+ */
+export function useStoreRef<T extends Persistable>(key: StoreKeyWithDefault<T>, options?: StoreRefOptions): Ref<T>;
+export function useStoreRef<T extends Persistable>(key: StoreKey<T>, options?: StoreRefOptions): Ref<T | null>;
+export function useStoreRef<T extends Persistable>(
+  key: StoreKey<T>,
+  { store = StrictStore }: StoreRefOptions = {},
+): Ref<T | null> {
+  let value = store.get(key);
+  let unsubscribe = () => {};
+
+  const ref = customRef<T | null>((track, trigger) => {
+    unsubscribe = store.subscribe(key, () => {
+      const next = store.get(key);
+      if (isEqual(next, value)) return;
+
+      value = next;
+      trigger();
+    });
+
+    return {
+      get: () => {
+        track();
+        return value;
+      },
+      set: next => {
+        if (next === null) store.remove([key]);
+        else store.save(key, next);
+      },
+    };
+  });
+
+  if (getCurrentScope())
+    onScopeDispose(() => unsubscribe());
+
+  return ref;
+}
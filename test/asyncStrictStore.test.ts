@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import {
+  AsyncStrictStore,
+  Persistable,
+  StoreKey,
+  StrictStore,
+  StrictStoreValidationError,
+  createKey,
+} from '@src/strict-store';
+
+type Settings = {
+  theme: 'light' | 'dark';
+  layout: { sidebar: boolean; width: number };
+};
+
+describe('AsyncStrictStore', () => {
+  const samplesKey = createKey<Float64Array>('async', 'samples');
+  const indexKey = createKey<Map<string, Set<bigint>>>('async', 'index');
+  const counterKey = createKey<number>('async', 'counter', 'session');
+  const settingsKey = createKey<Settings>('async', 'settings', 'local', {
+    default: { theme: 'light', layout: { sidebar: true, width: 240 } },
+  });
+  const otherKey = createKey<string>('async-other', 'value');
+
+  afterEach(async () => {
+    await AsyncStrictStore.clear();
+  });
+
+  it('round-trips complex values', async () => {
+    const samples = new Float64Array([0.5, -1, Math.PI]);
+    const index = new Map([['a', new Set([1n, 2n])]]);
+
+    await AsyncStrictStore.save(samplesKey, samples);
+    await AsyncStrictStore.save(indexKey, index);
+
+    expect(await AsyncStrictStore.get(samplesKey)).toEqual(samples);
+    expect(await AsyncStrictStore.get(indexKey)).toEqual(index);
+  });
+
+  it('returns null or the default for missing values', async () => {
+    expect(await AsyncStrictStore.get(counterKey)).toBeNull();
+    expect(await AsyncStrictStore.get(settingsKey)).toEqual(settingsKey.default);
+  });
+
+  it('keeps storage types apart', async () => {
+    const localCounter = createKey<number>('async', 'counter', 'local');
+
+    await AsyncStrictStore.save(counterKey, 1);
+    await AsyncStrictStore.save(localCounter, 2);
+
+    expect(await AsyncStrictStore.pick([counterKey, localCounter])).toEqual([1, 2]);
+    expect(await AsyncStrictStore.size()).toBe(2);
+  });
+
+  it('does not share values with StrictStore', async () => {
+    await AsyncStrictStore.save(counterKey, 1);
+
+    expect(StrictStore.get(counterKey)).toBeNull();
+  });
+
+  it('picks values and saves batches', async () => {
+    await AsyncStrictStore.saveBatch([
+      [counterKey, 3],
+      [otherKey, 'x'],
+    ]);
+
+    const [counter, settings, other] = await AsyncStrictStore.pick([counterKey, settingsKey, otherKey]);
+
+    expect(counter).toBe(3);
+    expect(settings).toEqual(settingsKey.default);
+    expect(other).toBe('x');
+  });
+
+  it('does not write anything when a batch value cannot be serialized', async () => {
+    const cyclic: Record<string, Persistable> = {};
+    cyclic.self = cyclic;
+    const cyclicKey = createKey<Record<string, Persistable>>('async', 'cyclic');
+
+    await expect(AsyncStrictStore.saveBatch([
+      [counterKey, 1],
+      [cyclicKey, cyclic],
+    ])).rejects.toThrow();
+
+    expect(await AsyncStrictStore.has([counterKey, cyclicKey])).toEqual([false, false]);
+  });
+
+  it('merges into stored values and defaults', async () => {
+    await AsyncStrictStore.merge(settingsKey, { layout: { width: 320 } });
+
+    expect(await AsyncStrictStore.get(settingsKey)).toEqual({
+      theme: 'light',
+      layout: { sidebar: true, width: 320 },
+    });
+
+    const userKey = createKey<{ name: string }>('async', 'user');
+    await expect(AsyncStrictStore.merge(userKey, { name: 'x' })).rejects.toThrow(
+      'AsyncStrictStore.merge: Cannot initialize the object.'
+    );
+  });
+
+  it('resets keys to their defaults', async () => {
+    await AsyncStrictStore.save(settingsKey, { theme: 'dark', layout: { sidebar: false, width: 0 } });
+    await AsyncStrictStore.reset(settingsKey);
+
+    expect(await AsyncStrictStore.get(settingsKey)).toEqual(settingsKey.default);
+  });
+
+  it('lists entries and keys by namespace', async () => {
+    await AsyncStrictStore.save(counterKey, 1);
+    await AsyncStrictStore.save(otherKey, 'x');
+
+    expect(await AsyncStrictStore.entries(['async-other'])).toEqual([
+      { key: expect.objectContaining({ ns: 'async-other', name: 'value', storeType: 'local' }), value: 'x' },
+    ]);
+    expect((await AsyncStrictStore.keys(['async'])).map(key => key.name)).toEqual(['counter']);
+    expect(await AsyncStrictStore.size(['async', 'async-other'])).toBe(2);
+    expect(await AsyncStrictStore.size([])).toBe(0);
+
+    const seen: string[] = [];
+    await AsyncStrictStore.forEach(key => seen.push(key.name));
+    expect(seen.sort()).toEqual(['counter', 'value']);
+  });
+
+  it('removes and clears values', async () => {
+    await AsyncStrictStore.save(counterKey, 1);
+    await AsyncStrictStore.save(otherKey, 'x');
+
+    await AsyncStrictStore.remove([counterKey]);
+    expect(await AsyncStrictStore.has(counterKey)).toBe(false);
+
+    await AsyncStrictStore.clear(['async-other']);
+    expect(await AsyncStrictStore.size()).toBe(0);
+  });
+
+  it('expires values', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const cacheKey = createKey<string>('async', 'cache', 'local', { ttl: 100 });
+
+    await AsyncStrictStore.save(cacheKey, 'cached');
+    expect(await AsyncStrictStore.get(cacheKey)).toBe('cached');
+
+    now.mockReturnValue(1_200);
+    expect(await AsyncStrictStore.size()).toBe(0);
+    expect(await AsyncStrictStore.purgeExpired()).toBe(1);
+    expect(await AsyncStrictStore.get(cacheKey)).toBeNull();
+
+    now.mockRestore();
+  });
+
+  it('validates stored values', async () => {
+    const strictKey = createKey<number>('async', 'strict', 'local', {
+      validate: (value): value is number => typeof value === 'number',
+      onInvalid: 'throw',
+    });
+
+    await AsyncStrictStore.save(strictKey as unknown as StoreKey<string>, 'nope');
+
+    await expect(AsyncStrictStore.get(strictKey)).rejects.toBeInstanceOf(StrictStoreValidationError);
+  });
+
+  it('migrates outdated values', async () => {
+    const v1 = createKey<{ name: string }>('async', 'profile');
+    const v2 = createKey<{ firstName: string }>('async', 'profile', 'local', {
+      migrations: [(value: { name: string }) => ({ firstName: value.name })],
+    });
+
+    await AsyncStrictStore.save(v1, { name: 'Ada' });
+
+    expect(await AsyncStrictStore.get(v2)).toEqual({ firstName: 'Ada' });
+    expect(await AsyncStrictStore.migrateAll()).toBe(1);
+    expect(await AsyncStrictStore.migrateAll()).toBe(0);
+  });
+
+  it('notifies listeners about writes and removals', async () => {
+    const callback = jest.fn();
+    const unsubscribe = AsyncStrictStore.onChange(callback, [counterKey]);
+
+    await AsyncStrictStore.save(counterKey, 1);
+    await AsyncStrictStore.save(otherKey, 'ignored');
+    await AsyncStrictStore.save(counterKey, 2);
+    await AsyncStrictStore.remove([counterKey]);
+
+    unsubscribe();
+    await AsyncStrictStore.save(counterKey, 3);
+
+    expect(callback.mock.calls).toEqual([
+      [expect.objectContaining({ ns: 'async', name: 'counter', storeType: 'session' }), 1, null, 'local'],
+      [expect.objectContaining({ name: 'counter' }), 2, 1, 'local'],
+      [expect.objectContaining({ name: 'counter' }), null, 2, 'local'],
+    ]);
+  });
+
+  it('reports changes of encrypted keys in order', async () => {
+    const cryptoKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const secretKey = createKey<string>('async', 'secret', 'local', { encryption: cryptoKey });
+    await AsyncStrictStore.save(secretKey, 'hidden');
+    await AsyncStrictStore.save(counterKey, 1);
+
+    const names: string[] = [];
+    let delivered!: () => void;
+    const bothDelivered = new Promise<void>(resolve => delivered = resolve);
+    const unsubscribe = AsyncStrictStore.onChange(key => {
+      if (names.push(key.name) === 2) delivered();
+    }, ['async']);
+
+    await AsyncStrictStore.remove([secretKey, counterKey]);
+    await bothDelivered;
+    unsubscribe();
+
+    expect(names).toEqual(['secret', 'counter']);
+  });
+
+  it('keeps notifying other listeners when one throws', async () => {
+    const queueMicrotask = jest.spyOn(globalThis, 'queueMicrotask').mockImplementation(() => {});
+    const callback = jest.fn();
+    const unsubscribeFailing = AsyncStrictStore.onChange(() => {
+      throw new Error('Listener failed');
+    });
+    const unsubscribe = AsyncStrictStore.onChange(callback);
+
+    await expect(AsyncStrictStore.save(counterKey, 1)).resolves.toBeUndefined();
+    await AsyncStrictStore.has(counterKey);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(queueMicrotask).toHaveBeenCalledTimes(1);
+
+    queueMicrotask.mockRestore();
+    unsubscribeFailing();
+    unsubscribe();
+  });
+});
@@ -0,0 +1,122 @@
+import { filter, from, map } from 'rxjs';
+import { StoreChange, StrictStore, createKey } from '@src/strict-store';
+
+describe('StrictStore.changes', () => {
+  const themeKey = createKey<'light' | 'dark'>('changes', 'theme');
+  const countKey = createKey<number>('changes', 'count', 'session');
+  const otherKey = createKey<string>('changes-other', 'value');
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('emits typed change records to observers', () => {
+    const next = jest.fn();
+    const subscription = StrictStore.changes([themeKey]).subscribe({ next });
+
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(otherKey, 'ignored');
+    StrictStore.remove([themeKey]);
+
+    expect(next.mock.calls).toEqual([
+      [{ key: expect.objectContaining({ name: 'theme' }), newValue: 'dark', oldValue: null, storeType: 'local', origin: 'local' }],
+      [{ key: expect.objectContaining({ name: 'theme' }), newValue: null, oldValue: 'dark', storeType: 'local', origin: 'local' }],
+    ]);
+
+    subscription.unsubscribe();
+  });
+
+  it('filters by namespaces', () => {
+    const next = jest.fn();
+    const subscription = StrictStore.changes(['changes-other']).subscribe(next);
+
+    StrictStore.save(countKey, 1);
+    StrictStore.save(otherKey, 'x');
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ newValue: 'x' }));
+
+    subscription.unsubscribe();
+  });
+
+  it('removes the storage listeners on unsubscribe', () => {
+    const add = jest.spyOn(window, 'addEventListener');
+    const remove = jest.spyOn(window, 'removeEventListener');
+    const next = jest.fn();
+
+    const subscription = StrictStore.changes().subscribe(next);
+    const added = add.mock.calls.filter(([type]) => type === 'storage').length;
+
+    subscription.unsubscribe();
+    subscription.unsubscribe();
+    StrictStore.save(themeKey, 'dark');
+
+    expect(subscription.closed).toBe(true);
+    expect(next).not.toHaveBeenCalled();
+    expect(added).toBeGreaterThan(0);
+    expect(remove.mock.calls.filter(([type]) => type === 'storage')).toHaveLength(added);
+
+    add.mockRestore();
+    remove.mockRestore();
+  });
+
+  it('works with RxJS', () => {
+    const values: number[] = [];
+    const subscription = from(StrictStore.changes([countKey]))
+      .pipe(
+        filter(change => change.newValue !== null),
+        map(change => change.newValue! * 10),
+      )
+      .subscribe(value => values.push(value));
+
+    StrictStore.save(countKey, 1);
+    StrictStore.remove([countKey]);
+    StrictStore.save(countKey, 2);
+    subscription.unsubscribe();
+    StrictStore.save(countKey, 3);
+
+    expect(values).toEqual([10, 20]);
+  });
+
+  it('is async iterable and buffers changes', async () => {
+    const iterator = StrictStore.changes([countKey])[Symbol.asyncIterator]();
+
+    StrictStore.save(countKey, 1);
+    StrictStore.save(countKey, 2);
+
+    expect((await iterator.next()).value).toMatchObject({ newValue: 1 });
+    expect((await iterator.next()).value).toMatchObject({ newValue: 2 });
+
+    const pending = iterator.next();
+    StrictStore.save(countKey, 3);
+    expect((await pending).value).toMatchObject({ newValue: 3, oldValue: 2 });
+
+    await iterator.return!();
+  });
+
+  it('stops listening when the loop ends', async () => {
+    const seen: StoreChange<number>[] = [];
+    setTimeout(() => {
+      StrictStore.save(countKey, 1);
+      StrictStore.save(countKey, 2);
+    });
+
+    for await (const change of StrictStore.changes([countKey])) {
+      seen.push(change);
+      if (change.newValue === 2) break;
+    }
+
+    const remove = jest.spyOn(window, 'removeEventListener');
+    const iterator = StrictStore.changes()[Symbol.asyncIterator]();
+    const pending = iterator.next();
+    await iterator.return!();
+
+    expect(seen.map(change => change.newValue)).toEqual([1, 2]);
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    expect(remove).toHaveBeenCalledWith('storage', expect.any(Function));
+
+    remove.mockRestore();
+  });
+});
@@ -0,0 +1,157 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('functional and collection updates', () => {
+  type Todo = { id: number; done: boolean };
+
+  const counterKey = createKey<number>('updates', 'counter');
+  const visitsKey = createKey<number>('updates', 'visits', 'local', { default: 10 });
+  const balanceKey = createKey<bigint>('updates', 'balance', 'session');
+  const historyKey = createKey<string[]>('updates', 'history');
+  const todosKey = createKey<Todo[]>('updates', 'todos');
+  const tagsKey = createKey<Set<string>>('updates', 'tags', 'local', { default: () => new Set(['new']) });
+  const pointsKey = createKey<Set<{ x: number; y: number }>>('updates', 'points');
+  const pricesKey = createKey<Map<string, bigint>>('updates', 'prices');
+  const cellsKey = createKey<Map<number[], string>>('updates', 'cells');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  test('update passes the current value or the default', () => {
+    StrictStore.update(visitsKey, visits => visits + 1);
+    StrictStore.update(visitsKey, visits => visits * 2);
+    StrictStore.update(counterKey, counter => (counter ?? 0) + 5);
+
+    expect(StrictStore.get(visitsKey)).toBe(22);
+    expect(StrictStore.get(counterKey)).toBe(5);
+
+    StrictStore.update(counterKey, () => null);
+
+    expect(StrictStore.has(counterKey)).toBe(false);
+
+    // @ts-expect-error
+    StrictStore.update(counterKey, () => 'five');
+  });
+
+  test('update keeps the expiration of the stored value', () => {
+    let now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    StrictStore.save(counterKey, 1, { ttl: 1000 });
+    now += 600;
+    StrictStore.update(counterKey, counter => counter! + 1);
+    now += 400;
+
+    expect(StrictStore.get(counterKey)).toBeNull();
+  });
+
+  test('increment adds to numbers and bigints', () => {
+    expect(StrictStore.increment(counterKey)).toBe(1);
+    expect(StrictStore.increment(counterKey, 4)).toBe(5);
+    expect(StrictStore.increment(visitsKey, -3)).toBe(7);
+    expect(StrictStore.increment(balanceKey, 10n ** 20n)).toBe(10n ** 20n);
+    expect(StrictStore.increment(balanceKey, -1n)).toBe(10n ** 20n - 1n);
+
+    expect(StrictStore.get(counterKey)).toBe(5);
+    expect(StrictStore.get(balanceKey)).toBe(99_999_999_999_999_999_999n);
+
+    // @ts-expect-error
+    expect(() => StrictStore.increment(balanceKey, 1)).toThrow(
+      'StrictStore.increment: Can only increment a number or a bigint by a value of its type'
+    );
+    // @ts-expect-error
+    StrictStore.increment(historyKey);
+  });
+
+  test('push and remove change arrays', () => {
+    StrictStore.push(historyKey, '/home', '/cart');
+    StrictStore.push(historyKey, '/home');
+    StrictStore.remove(historyKey, '/home');
+
+    expect(StrictStore.get(historyKey)).toEqual(['/cart']);
+
+    StrictStore.push(todosKey, { id: 1, done: true }, { id: 2, done: false }, { id: 3, done: true });
+    StrictStore.remove(todosKey, { id: 2, done: false });
+    StrictStore.remove(todosKey, todo => todo.id === 3);
+
+    expect(StrictStore.get(todosKey)).toEqual([{ id: 1, done: true }]);
+
+    // @ts-expect-error
+    StrictStore.push(historyKey, 1);
+  });
+
+  test('remove still removes keys', () => {
+    StrictStore.push(historyKey, '/home');
+    StrictStore.remove([historyKey]);
+
+    expect(StrictStore.has(historyKey)).toBe(false);
+  });
+
+  test('add and delete change sets', () => {
+    StrictStore.add(tagsKey, 'sale', 'new');
+
+    expect(StrictStore.get(tagsKey)).toEqual(new Set(['new', 'sale']));
+
+    StrictStore.delete(tagsKey, 'new');
+
+    expect(StrictStore.get(tagsKey)).toEqual(new Set(['sale']));
+
+    StrictStore.add(pointsKey, { x: 1, y: 2 });
+    StrictStore.add(pointsKey, { x: 1, y: 2 }, { x: 3, y: 4 });
+    StrictStore.delete(pointsKey, { x: 3, y: 4 });
+
+    expect(StrictStore.get(pointsKey)).toEqual(new Set([{ x: 1, y: 2 }]));
+  });
+
+  test('setEntry and deleteEntry change maps', () => {
+    StrictStore.setEntry(pricesKey, 'book', 1299n);
+    StrictStore.setEntry(pricesKey, 'pen', 99n);
+    StrictStore.setEntry(pricesKey, 'book', 999n);
+    StrictStore.deleteEntry(pricesKey, 'pen');
+
+    expect(StrictStore.get(pricesKey)).toEqual(new Map([['book', 999n]]));
+
+    StrictStore.setEntry(cellsKey, [0, 0], 'a');
+    StrictStore.setEntry(cellsKey, [0, 0], 'b');
+
+    expect(StrictStore.get(cellsKey)).toEqual(new Map([[[0, 0], 'b']]));
+
+    StrictStore.deleteEntry(cellsKey, [0, 0]);
+
+    expect(StrictStore.get(cellsKey)).toEqual(new Map());
+
+    // @ts-expect-error
+    StrictStore.setEntry(pricesKey, 'book', 1);
+  });
+
+  test('changes that do nothing are not written', () => {
+    const callback = jest.fn();
+    StrictStore.add(tagsKey, 'sale');
+    const unsubscribe = StrictStore.onChange(callback);
+
+    StrictStore.add(tagsKey, 'sale');
+    StrictStore.delete(tagsKey, 'gone');
+    StrictStore.remove(historyKey, '/home');
+    StrictStore.deleteEntry(pricesKey, 'book');
+    unsubscribe();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(StrictStore.has([historyKey, pricesKey])).toEqual([false, false]);
+  });
+
+  test('rejects values of another type', () => {
+    const textKey = createKey<string>('updates', 'text');
+    StrictStore.save(textKey, 'plain');
+    const anyKey = textKey as never;
+
+    expect(() => StrictStore.push(anyKey, 'x')).toThrow('StrictStore.push: Can only push into arrays');
+    expect(() => StrictStore.remove(anyKey, 'x')).toThrow('StrictStore.remove: Can only remove items from arrays');
+    expect(() => StrictStore.add(anyKey, 'x')).toThrow('StrictStore.add: Can only add to sets');
+    expect(() => StrictStore.delete(anyKey, 'x')).toThrow('StrictStore.delete: Can only delete from sets');
+    expect(() => StrictStore.setEntry(anyKey, 'x', 1)).toThrow('StrictStore.setEntry: Can only set entries of maps');
+    expect(() => StrictStore.deleteEntry(anyKey, 'x')).toThrow('StrictStore.deleteEntry: Can only delete entries of maps');
+    expect(StrictStore.get(textKey)).toBe('plain');
+  });
+});
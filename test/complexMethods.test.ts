@@ -87,6 +87,18 @@ describe('Complex methods', () => {
       ]);
     });
 
+    test('should replace Date property instead of merging it', () => {
+      const eventKey = createKey<{ title: string; at: Date }>('test-ns', 'event');
+      StrictStore.save(eventKey, { title: 'Release', at: new Date('2024-01-01T00:00:00.000Z') });
+
+      StrictStore.merge(eventKey, { at: new Date('2025-01-01T00:00:00.000Z') });
+
+      const result = StrictStore.get(eventKey);
+      expect(result?.title).toBe('Release');
+      expect(result?.at).toBeInstanceOf(Date);
+      expect(result?.at.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+
     test('should merge deeply nested object with array and set', () => {
       const complexKey = createKey<{
         user: {
@@ -224,7 +236,7 @@ describe('Complex methods', () => {
       const storageArea = key.storeType === 'local' ? localStorage : sessionStorage;
 
       const serialize = (v: Persistable) =>
-        v === null ? null : typeof v === 'string' ? v : JSON.stringify(v);
+        v === null ? null : JSON.stringify(v);
 
       const event = new StorageEvent('storage', {
         key: storageKey,
@@ -400,5 +412,67 @@ describe('Complex methods', () => {
 
       unsubscribe();
     });
+
+    it('reports changes of other tabs as remote', () => {
+      const key = createKey<string>('ns', 'k', 'local');
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.onChange(callback, [key]);
+
+      fireStorageEvent(key, 'foo', 'bar');
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ name: 'k' }), 'foo', 'bar', 'remote');
+      unsubscribe();
+    });
+
+    it('reports writes of the current tab as local', () => {
+      const userKey = createKey<{ name: string; age: number }>('ns', 'user', 'local');
+      const flagKey = createKey<boolean>('ns', 'flag', 'session');
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.onChange(callback, ['ns']);
+
+      StrictStore.save(userKey, { name: 'Ivan', age: 30 });
+      StrictStore.merge(userKey, { age: 31 });
+      StrictStore.saveBatch([[flagKey, true]]);
+      StrictStore.remove([userKey]);
+      StrictStore.clear(['ns']);
+
+      expect(callback.mock.calls).toEqual([
+        [expect.objectContaining({ name: 'user' }), { name: 'Ivan', age: 30 }, null, 'local'],
+        [expect.objectContaining({ name: 'user' }), { name: 'Ivan', age: 31 }, { name: 'Ivan', age: 30 }, 'local'],
+        [expect.objectContaining({ name: 'flag', storeType: 'session' }), true, null, 'local'],
+        [expect.objectContaining({ name: 'user' }), null, { name: 'Ivan', age: 31 }, 'local'],
+        [expect.objectContaining({ name: 'flag' }), null, true, 'local'],
+      ]);
+      unsubscribe();
+    });
+
+    it('does not report removals of missing keys', () => {
+      const key = createKey<string>('ns', 'k', 'local');
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.onChange(callback);
+
+      StrictStore.remove([key]);
+
+      expect(callback).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it('keeps notifying other listeners when one throws', () => {
+      const key = createKey<string>('ns', 'k', 'local');
+      const callback = jest.fn();
+      const queueMicrotask = jest.spyOn(globalThis, 'queueMicrotask').mockImplementation(() => {});
+      const unsubscribeFailing = StrictStore.onChange(() => {
+        throw new Error('Listener failed');
+      });
+      const unsubscribe = StrictStore.onChange(callback);
+
+      expect(() => StrictStore.save(key, 'x')).not.toThrow();
+      expect(callback).toHaveBeenCalled();
+      expect(queueMicrotask).toHaveBeenCalledTimes(1);
+
+      queueMicrotask.mockRestore();
+      unsubscribeFailing();
+      unsubscribe();
+    });
   });
 })
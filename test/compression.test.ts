@@ -0,0 +1,82 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('Compression', () => {
+  const repetitive = new Map(
+    Array.from({ length: 200 }, (_, i) => [`item-${i}`, { enabled: true, tags: new Set(['a', 'b']) }])
+  );
+
+  const compressedKey = createKey<typeof repetitive>('compression', 'map', 'local', { compress: true });
+  const thresholdKey = createKey<string>('compression', 'text', 'local', { compress: { threshold: 100 } });
+  const plainKey = createKey<typeof repetitive>('compression', 'plain');
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('compresses large values', () => {
+    StrictStore.save(compressedKey, repetitive);
+    StrictStore.save(plainKey, repetitive);
+
+    const compressed = localStorage.getItem('strict-store/compression:map')!;
+    const plain = localStorage.getItem('strict-store/compression:plain')!;
+
+    expect(compressed.startsWith('~lz:')).toBe(true);
+    expect(compressed.length).toBeLessThan(plain.length / 5);
+    expect(StrictStore.get(compressedKey)).toEqual(repetitive);
+  });
+
+  it('leaves values below the threshold uncompressed', () => {
+    StrictStore.save(thresholdKey, 'short');
+    expect(localStorage.getItem('strict-store/compression:text')).toBe('"short"');
+
+    StrictStore.save(thresholdKey, 'abc'.repeat(100));
+    expect(localStorage.getItem('strict-store/compression:text')!.startsWith('~lz:')).toBe(true);
+    expect(StrictStore.get(thresholdKey)).toBe('abc'.repeat(100));
+  });
+
+  it('reads uncompressed values written before compression was enabled', () => {
+    StrictStore.save(plainKey, repetitive);
+
+    const laterKey = createKey<typeof repetitive>('compression', 'plain', 'local', { compress: true });
+    expect(StrictStore.get(laterKey)).toEqual(repetitive);
+  });
+
+  it('keeps metadata next to compressed values', () => {
+    const cacheKey = createKey<string>('compression', 'cache', 'local', {
+      compress: { threshold: 10 },
+      ttl: 60_000,
+    });
+
+    StrictStore.save(cacheKey, 'x'.repeat(500));
+
+    expect(localStorage.getItem('strict-store/compression:cache')).toMatch(/^\{"__type":"entry","meta":\{"expiresAt":\d+},"value":~lz:/);
+    expect(StrictStore.get(cacheKey)).toBe('x'.repeat(500));
+  });
+
+  it('decodes compressed and uncompressed values in entries', () => {
+    StrictStore.save(compressedKey, repetitive);
+    StrictStore.save(thresholdKey, 'short');
+
+    expect(StrictStore.entries(['compression'])).toEqual(expect.arrayContaining([
+      { key: expect.objectContaining({ name: 'map' }), value: repetitive },
+      { key: expect.objectContaining({ name: 'text' }), value: 'short' },
+    ]));
+  });
+
+  it('decodes compressed values in onChange', () => {
+    StrictStore.save(compressedKey, repetitive);
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback);
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: 'strict-store/compression:map',
+      newValue: null,
+      oldValue: localStorage.getItem('strict-store/compression:map'),
+      storageArea: localStorage,
+    }));
+
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ name: 'map' }), null, repetitive, 'remote');
+
+    unsubscribe();
+  });
+});
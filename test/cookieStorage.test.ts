@@ -0,0 +1,87 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('Cookie storage', () => {
+  const themeKey = createKey<'light' | 'dark'>('cookie-ns', 'theme', 'cookie');
+  const idsKey = createKey<Set<bigint>>('cookie-ns', 'ids', 'cookie');
+  const consentKey = createKey<boolean>('cookie-other', 'consent', 'cookie', {
+    cookie: { path: '/', maxAge: 3600, sameSite: 'lax', secure: true },
+  });
+  const localKey = createKey<string>('cookie-ns', 'local');
+
+  afterEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('stores values in document.cookie', () => {
+    StrictStore.save(themeKey, 'dark');
+
+    expect(document.cookie).toContain(`strict-store/cookie-ns:theme=${encodeURIComponent('"dark"')}`);
+    expect(StrictStore.get(themeKey)).toBe('dark');
+  });
+
+  it('round-trips complex values', () => {
+    StrictStore.save(idsKey, new Set([1n, 2n]));
+
+    expect(StrictStore.get(idsKey)).toEqual(new Set([1n, 2n]));
+  });
+
+  it('applies the cookie attributes of the key', () => {
+    const setter = jest.spyOn(document, 'cookie', 'set');
+
+    StrictStore.save(consentKey, true);
+    StrictStore.remove([consentKey]);
+
+    expect(setter).toHaveBeenNthCalledWith(
+      1, 'strict-store/cookie-other:consent=true; path=/; max-age=3600; samesite=lax; secure'
+    );
+    expect(setter).toHaveBeenNthCalledWith(
+      2, 'strict-store/cookie-other:consent=; path=/; max-age=0; samesite=lax; secure'
+    );
+  });
+
+  it('rejects cookie attributes for other storage types', () => {
+    expect(() => createKey<string>('cookie-ns', 'x', 'local', { cookie: { path: '/' } })).toThrow(
+      'Cookie attributes require the "cookie" storage type.'
+    );
+  });
+
+  it('enforces the 4KB cookie limit', () => {
+    const bigKey = createKey<string>('cookie-ns', 'big', 'cookie');
+
+    expect(() => StrictStore.save(bigKey, 'x'.repeat(5000))).toThrow(
+      /^StrictStore: The cookie "strict-store\/cookie-ns:big" is \d+ bytes, exceeding the 4096-byte cookie limit\.$/
+    );
+    expect(StrictStore.has(bigKey)).toBe(false);
+  });
+
+  it('ignores cookies not written by StrictStore', () => {
+    document.cookie = 'session=%E0%A4%A';
+    document.cookie = 'other=value';
+    StrictStore.save(themeKey, 'light');
+
+    expect(StrictStore.keys()).toEqual([expect.objectContaining({ ns: 'cookie-ns', name: 'theme', storeType: 'cookie' })]);
+
+    document.cookie = 'session=; max-age=0';
+    document.cookie = 'other=; max-age=0';
+  });
+
+  it('takes part in entries, keys, size and clear', () => {
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(idsKey, new Set([1n]));
+    StrictStore.save(localKey, 'local');
+
+    expect(StrictStore.size(['cookie-ns'])).toBe(3);
+    expect(StrictStore.keys(['cookie-ns']).filter(key => key.storeType === 'cookie')).toHaveLength(2);
+    expect(StrictStore.entries(['cookie-ns'])).toEqual(expect.arrayContaining([
+      { key: expect.objectContaining({ name: 'theme', storeType: 'cookie' }), value: 'dark' },
+      { key: expect.objectContaining({ name: 'ids', storeType: 'cookie' }), value: new Set([1n]) },
+    ]));
+
+    StrictStore.clear(['cookie-ns']);
+
+    expect(StrictStore.size()).toBe(0);
+    expect(document.cookie).toBe('');
+  });
+});
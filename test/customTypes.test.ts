@@ -0,0 +1,121 @@
+import { StrictStore, StrictStoreValidationError, createKey, registerType } from '@src/strict-store';
+
+class Money {
+  constructor(readonly amount: bigint, readonly currency: string) {}
+
+  format(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+class LatLng {
+  constructor(readonly lat: number, readonly lng: number) {}
+}
+
+declare module '@src/types' {
+  interface CustomPersistableTypes {
+    money: Money;
+    latLng: LatLng;
+  }
+}
+
+describe('Custom types', () => {
+  const unregister: Array<() => void> = [];
+
+  beforeAll(() => {
+    unregister.push(registerType({
+      name: 'money',
+      test: value => value instanceof Money,
+      serialize: (value: Money) => ({ amount: value.amount, currency: value.currency }),
+      deserialize: value => new Money(value.amount, value.currency),
+    }));
+
+    unregister.push(registerType<LatLng, [number, number]>({
+      name: 'latLng',
+      test: value => value instanceof LatLng,
+      serialize: value => [value.lat, value.lng],
+      deserialize: ([lat, lng]) => new LatLng(lat, lng),
+    }));
+  });
+
+  afterAll(() => {
+    unregister.forEach(fn => fn());
+  });
+
+  beforeEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  test('restores the real prototype of a registered class', () => {
+    const key = createKey<Money>('custom', 'price');
+    StrictStore.save(key, new Money(1999n, 'EUR'));
+
+    const result = StrictStore.get(key);
+    expect(result).toBeInstanceOf(Money);
+    expect(result?.amount).toBe(1999n);
+    expect(result?.format()).toBe('1999 EUR');
+  });
+
+  test('stores the type name next to the serialized value', () => {
+    const key = createKey<LatLng>('custom', 'point');
+    StrictStore.save(key, new LatLng(52.52, 13.405));
+
+    expect(JSON.parse(localStorage.getItem('strict-store/custom:point')!)).toEqual({
+      __type: 'custom',
+      value: [52.52, 13.405],
+      subtype: 'latLng',
+    });
+  });
+
+  test('works inside built-in containers', () => {
+    const key = createKey<Map<string, LatLng[]>>('custom', 'routes');
+    StrictStore.save(key, new Map([['home', [new LatLng(1, 2), new LatLng(3, 4)]]]));
+
+    const result = StrictStore.get(key);
+    expect(result?.get('home')?.[1]).toBeInstanceOf(LatLng);
+    expect(result?.get('home')?.[1].lng).toBe(4);
+  });
+
+  test('throws for an empty or duplicated name', () => {
+    expect(() => registerType({
+      name: '',
+      test: () => false,
+      serialize: () => null,
+      deserialize: () => null,
+    })).toThrow('registerType: The type name cannot be empty.');
+
+    expect(() => registerType({
+      name: 'money',
+      test: () => false,
+      serialize: () => null,
+      deserialize: () => null,
+    })).toThrow('registerType: The type "money" is already registered.');
+  });
+
+  test('unregistered types cannot be restored', () => {
+    class Duration {
+      constructor(readonly ms: number) {}
+    }
+
+    const unregisterDuration = registerType<Duration, number>({
+      name: 'duration',
+      test: value => value instanceof Duration,
+      serialize: value => value.ms,
+      deserialize: value => new Duration(value),
+    });
+
+    const key = createKey<any>('custom', 'duration');
+    const withDefault = createKey<any>('custom', 'duration', 'local', { default: new Duration(0) });
+    const throwing = createKey<any>('custom', 'duration', 'local', { onInvalid: 'throw' });
+    StrictStore.save(key, new Duration(500));
+    expect(StrictStore.get(key)).toBeInstanceOf(Duration);
+
+    unregisterDuration();
+    expect(StrictStore.get(key)).toBe(null);
+    expect(StrictStore.get(withDefault)).toEqual(new Duration(0));
+    expect(() => StrictStore.get(throwing)).toThrow(StrictStoreValidationError);
+    expect(localStorage.getItem('strict-store/custom:duration')).not.toBe(null);
+  });
+});
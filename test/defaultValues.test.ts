@@ -0,0 +1,100 @@
+import { StrictStore, createKey } from '@src/strict-store';
+import { getFullName } from '@src/utils';
+
+describe('Default values', () => {
+  beforeEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const expectType = <const T>(_value: T) => {}
+
+  test('get returns the default when nothing is stored', () => {
+    const themeKey = createKey<'light' | 'dark'>('defaults', 'theme', 'local', { default: 'light' });
+
+    const theme = StrictStore.get(themeKey);
+    expectType<'light' | 'dark'>(theme);
+    expect(theme).toBe('light');
+
+    StrictStore.save(themeKey, 'dark');
+    expect(StrictStore.get(themeKey)).toBe('dark');
+  });
+
+  test('a stored null is returned as is', () => {
+    const key = createKey<string | null>('defaults', 'nullable', 'local', { default: 'fallback' });
+    StrictStore.save(key, null);
+
+    expect(StrictStore.get(key)).toBe(null);
+  });
+
+  test('lazy factory is called for every missing read', () => {
+    const factory = jest.fn(() => ['a']);
+    const key = createKey<string[]>('defaults', 'factory', 'local', { default: factory });
+
+    const first = StrictStore.get(key);
+    const second = StrictStore.get(key);
+
+    expect(first).toEqual(['a']);
+    expect(first).not.toBe(second);
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  test('pick returns T for keys with a default', () => {
+    const langKey = createKey<'en' | 'ru'>('defaults', 'lang', 'session', { default: 'en' });
+    const countKey = createKey<number>('defaults', 'count');
+
+    const [lang, count] = StrictStore.pick([langKey, countKey]);
+    expectType<'en' | 'ru'>(lang);
+    expectType<number | null>(count);
+
+    expect(lang).toBe('en');
+    expect(count).toBe(null);
+  });
+
+  test('invalid values fall back to the default', () => {
+    const key = createKey<number>('defaults', 'validated', 'local', {
+      default: 10,
+      validate: value => typeof value === 'number',
+    });
+    localStorage.setItem(getFullName('defaults', 'validated'), '"ten"');
+
+    expect(StrictStore.get(key)).toBe(10);
+    expect(StrictStore.entries(['defaults'])).toEqual([]);
+  });
+
+  test('reset writes the default back to storage', () => {
+    const key = createKey<{ page: number }>('defaults', 'paging', 'local', { default: () => ({ page: 1 }) });
+    StrictStore.save(key, { page: 5 });
+
+    StrictStore.reset(key);
+
+    expect(StrictStore.has(key)).toBe(true);
+    expect(StrictStore.get(key)).toEqual({ page: 1 });
+  });
+
+  test('reset only accepts keys with a default', () => {
+    const key = createKey<number>('defaults', 'no-default');
+
+    // @ts-expect-error
+    StrictStore.reset(key);
+  });
+
+  test('merge initializes from the default', () => {
+    type Settings = { volume: number; muted: boolean };
+    const key = createKey<Settings>('defaults', 'settings', 'local', {
+      default: { volume: 50, muted: false },
+    });
+
+    StrictStore.merge(key, { muted: true });
+
+    expect(StrictStore.get(key)).toEqual({ volume: 50, muted: true });
+  });
+
+  test('the "null" policy is not allowed for keys with a default', () => {
+    // @ts-expect-error
+    createKey<number>('defaults', 'policy', 'local', { default: 1, onInvalid: 'null' });
+    // @ts-expect-error
+    createKey<number>('defaults', 'policy', 'local', { onInvalid: 'default' });
+  });
+});
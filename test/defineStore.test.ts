@@ -0,0 +1,107 @@
+import { StrictStore, createKey, createMemoryAdapter, createStrictStore, defineStore, key } from '@src/strict-store';
+import { User } from '@test/types';
+
+describe('defineStore', () => {
+  type Filters = { query: string; page: number };
+
+  const user: User = { first_name: 'Ada', last_name: null, hasEmail: true, age: 36, cash: 10n };
+
+  const app = defineStore('app', {
+    theme: key<'light' | 'dark'>({ default: 'light' }),
+    user: key<User>({ storage: 'session' }),
+    filters: key<Filters>({ default: () => ({ query: '', page: 1 }) }),
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  test('creates a key per field', () => {
+    expect(app.theme.key).toMatchObject({ ns: 'app', name: 'theme', storeType: 'local', default: 'light' });
+    expect(app.user.key).toMatchObject({ ns: 'app', name: 'user', storeType: 'session' });
+
+    app.user.set(user);
+
+    expect(StrictStore.get(createKey<User>('app', 'user', 'session'))).toEqual(user);
+  });
+
+  test('reads and writes typed values', () => {
+    const theme: 'light' | 'dark' = app.theme.get();
+    const stored: User | null = app.user.get();
+
+    expect(theme).toBe('light');
+    expect(stored).toBeNull();
+
+    app.theme.set('dark');
+    app.filters.merge({ page: 3 });
+
+    expect(app.theme.get()).toBe('dark');
+    expect(app.filters.get()).toEqual({ query: '', page: 3 });
+
+    app.theme.remove();
+
+    expect(app.theme.get()).toBe('light');
+    expect(localStorage.getItem('strict-store/app:theme')).toBeNull();
+
+    // @ts-expect-error
+    app.theme.set('blue');
+  });
+
+  test('merges only into object fields', () => {
+    // @ts-expect-error
+    expect(() => app.theme.merge({})).toThrow('StrictStore.merge: Can only merge into plain objects');
+  });
+
+  test('subscribes to a field', () => {
+    const callback = jest.fn();
+    const unsubscribe = app.theme.subscribe(callback);
+
+    app.theme.set('dark');
+    app.user.set(user);
+    unsubscribe();
+    app.theme.set('light');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('dark', null, 'local');
+  });
+
+  test('reads all fields', () => {
+    app.user.set(user);
+
+    const values: { theme: 'light' | 'dark'; user: User | null; filters: Filters } = app.getAll();
+
+    expect(values).toEqual({ theme: 'light', user, filters: { query: '', page: 1 } });
+  });
+
+  test('resets and clears all fields', () => {
+    app.theme.set('dark');
+    app.user.set(user);
+    StrictStore.save(createKey<number>('app', 'other'), 1);
+
+    app.reset();
+
+    expect(localStorage.getItem('strict-store/app:theme')).not.toBeNull();
+    expect(app.getAll()).toEqual({ theme: 'light', user: null, filters: { query: '', page: 1 } });
+
+    app.clear();
+
+    expect(StrictStore.keys(['app'])).toEqual([expect.objectContaining({ name: 'other' })]);
+  });
+
+  test('uses the given store', () => {
+    const memory = createStrictStore({ storages: { local: createMemoryAdapter() } });
+    const scoped = defineStore(['app', 'scoped'], { count: key<number>({ default: 0 }) }, { store: memory });
+
+    scoped.count.set(5);
+
+    expect(memory.get(scoped.count.key)).toBe(5);
+    expect(StrictStore.get(scoped.count.key)).toBe(0);
+    expect(scoped.count.key.ns).toBe('app/scoped');
+  });
+
+  test('rejects reserved field names', () => {
+    expect(() => defineStore('app', { reset: key<number>() }))
+      .toThrow('defineStore: The field name "reset" is reserved.');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import {
+  AsyncStrictStore,
+  StrictStore,
+  createKey,
+  createMemoryAdapter,
+  registerEncryption,
+  registerStorage,
+} from '@src/strict-store';
+
+declare module '@src/types' {
+  interface CustomStoreTypes {
+    vault: true;
+  }
+}
+
+const generateKey = () => crypto.subtle.generateKey(
+  { name: 'AES-GCM', length: 256 },
+  false,
+  ['encrypt', 'decrypt'],
+);
+
+describe('Encryption', () => {
+  const storage = createMemoryAdapter();
+  const unregisterStorage = registerStorage('vault', storage);
+  let cryptoKey: CryptoKey;
+
+  beforeAll(async () => {
+    cryptoKey = await generateKey();
+  });
+
+  afterEach(async () => {
+    StrictStore.clear();
+    await AsyncStrictStore.clear();
+  });
+
+  afterAll(() => {
+    unregisterStorage();
+  });
+
+  it('encrypts values of encrypted keys', async () => {
+    const tokenKey = createKey<{ token: string, scopes: Set<string> }>('auth', 'token', 'vault', {
+      encryption: cryptoKey,
+    });
+    const value = { token: 'secret-token', scopes: new Set(['read']) };
+
+    await StrictStore.saveAsync(tokenKey, value);
+
+    const stored = storage.get('strict-store/auth:token')!;
+    expect(stored).toMatch(/^\{"__type":"encrypted","iv":"[^"]+","data":"[^"]+"}$/);
+    expect(stored).not.toContain('secret-token');
+    expect(await StrictStore.getAsync(tokenKey)).toEqual(value);
+  });
+
+  it('encrypts values of registered namespaces', async () => {
+    const unregister = registerEncryption('secrets', cryptoKey);
+    const pinKey = createKey<number>('secrets', 'pin', 'vault');
+
+    await StrictStore.saveAsync(pinKey, 1234);
+
+    expect(storage.get('strict-store/secrets:pin')).not.toContain('1234');
+    expect(await StrictStore.getAsync(pinKey)).toBe(1234);
+    expect(() => registerEncryption('secrets', cryptoKey)).toThrow(
+      'registerEncryption: The namespace "secrets" already has an encryption key.'
+    );
+
+    unregister();
+  });
+
+  it('rejects synchronous access to encrypted keys', async () => {
+    const tokenKey = createKey<string>('auth', 'token', 'vault', { encryption: cryptoKey });
+    const message = 'StrictStore: "strict-store/auth:token" is encrypted, use StrictStore.getAsync and StrictStore.saveAsync.';
+
+    expect(() => StrictStore.save(tokenKey, 'x')).toThrow(message);
+    expect(() => StrictStore.saveBatch([[tokenKey, 'x']])).toThrow(message);
+
+    await StrictStore.saveAsync(tokenKey, 'x');
+
+    expect(() => StrictStore.get(tokenKey)).toThrow(message);
+    expect(StrictStore.has(tokenKey)).toBe(true);
+    expect(StrictStore.size()).toBe(1);
+  });
+
+  it('skips encrypted values in entries', async () => {
+    const tokenKey = createKey<string>('auth', 'token', 'vault', { encryption: cryptoKey });
+    const plainKey = createKey<string>('auth', 'plain', 'vault');
+
+    await StrictStore.saveAsync(tokenKey, 'x');
+    await StrictStore.saveAsync(plainKey, 'y');
+
+    expect(StrictStore.entries(['auth'])).toEqual([{ key: expect.objectContaining({ name: 'plain' }), value: 'y' }]);
+  });
+
+  it('keeps metadata readable', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const tokenKey = createKey<string>('auth', 'token', 'vault', { encryption: cryptoKey, ttl: 100 });
+
+    await StrictStore.saveAsync(tokenKey, 'x');
+    now.mockReturnValue(1_200);
+
+    expect(StrictStore.purgeExpired()).toBe(1);
+    expect(await StrictStore.getAsync(tokenKey)).toBeNull();
+
+    now.mockRestore();
+  });
+
+  it('reads values saved before encryption was enabled', async () => {
+    const plainKey = createKey<string>('auth', 'legacy', 'vault');
+    const encryptedKey = createKey<string>('auth', 'legacy', 'vault', { encryption: cryptoKey });
+
+    StrictStore.save(plainKey, 'legacy');
+
+    expect(await StrictStore.getAsync(encryptedKey)).toBe('legacy');
+  });
+
+  it('fails on values encrypted with another key', async () => {
+    const tokenKey = createKey<string>('auth', 'token', 'vault', { encryption: cryptoKey });
+    const otherKey = createKey<string>('auth', 'token', 'vault', { encryption: await generateKey() });
+
+    await StrictStore.saveAsync(tokenKey, 'x');
+
+    await expect(StrictStore.getAsync(otherKey)).rejects.toThrow(
+      'StrictStore: Cannot decrypt the value stored under "strict-store/auth:token".'
+    );
+  });
+
+  it('binds values to their key', async () => {
+    const tokenKey = createKey<string>('auth', 'token', 'vault', { encryption: cryptoKey });
+    const copyKey = createKey<string>('auth', 'copy', 'vault', { encryption: cryptoKey });
+
+    await StrictStore.saveAsync(tokenKey, 'x');
+    storage.set('strict-store/auth:copy', storage.get('strict-store/auth:token')!);
+
+    await expect(StrictStore.getAsync(copyKey)).rejects.toThrow('Cannot decrypt');
+  });
+
+  it('works with unencrypted keys', async () => {
+    const plainKey = createKey<string>('auth', 'plain', 'vault');
+
+    await StrictStore.saveAsync(plainKey, 'y');
+
+    expect(StrictStore.get(plainKey)).toBe('y');
+    expect(await StrictStore.getAsync(plainKey)).toBe('y');
+  });
+
+  it('encrypts AsyncStrictStore values', async () => {
+    const tokenKey = createKey<Map<string, bigint>>('auth', 'balances', 'local', { encryption: cryptoKey });
+    const value = new Map([['eur', 10n]]);
+    const callback = jest.fn();
+    const unsubscribe = AsyncStrictStore.onChange(callback, [tokenKey]);
+
+    await AsyncStrictStore.save(tokenKey, value);
+
+    expect(await AsyncStrictStore.get(tokenKey)).toEqual(value);
+    expect(await AsyncStrictStore.entries(['auth'])).toEqual([{ key: expect.anything(), value }]);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ name: 'balances' }), value, null, 'local');
+
+    unsubscribe();
+  });
+});
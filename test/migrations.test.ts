@@ -0,0 +1,129 @@
+import { StrictStore, StrictStoreValidationError, createKey } from '@src/strict-store';
+import { getFullName } from '@src/utils';
+
+type UserV0 = { name: string };
+type UserV1 = { firstName: string; lastName: string };
+type User = { firstName: string; lastName: string; email: string | null };
+
+describe('Versioned keys', () => {
+  beforeEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const raw = (ns: string, name: string) => localStorage.getItem(getFullName(ns, name));
+
+  const migrations = [
+    (v0: UserV0): UserV1 => {
+      const [firstName, lastName = ''] = v0.name.split(' ');
+      return { firstName, lastName };
+    },
+    (v1: UserV1): User => ({ ...v1, email: null }),
+  ];
+
+  test('persists the version next to the value', () => {
+    const key = createKey<User>('versions', 'saved', 'local', { migrations });
+    StrictStore.save(key, { firstName: 'Ann', lastName: 'Lee', email: null });
+
+    expect(raw('versions', 'saved')).toBe(
+      '{"__type":"entry","meta":{"version":2},"value":{"firstName":"Ann","lastName":"Lee","email":null}}'
+    );
+  });
+
+  test('upgrades unversioned payloads on read', () => {
+    localStorage.setItem(getFullName('versions', 'legacy'), '{"name":"Ann Lee"}');
+    const key = createKey<User>('versions', 'legacy', 'local', { migrations });
+
+    expect(StrictStore.get(key)).toEqual({ firstName: 'Ann', lastName: 'Lee', email: null });
+    expect(raw('versions', 'legacy')).toBe('{"name":"Ann Lee"}');
+  });
+
+  test('upgrades from an intermediate version', () => {
+    localStorage.setItem(
+      getFullName('versions', 'v1'),
+      '{"__type":"entry","meta":{"version":1},"value":{"firstName":"Bob","lastName":"Ray"}}',
+    );
+    const key = createKey<User>('versions', 'v1', 'local', { migrations });
+
+    expect(StrictStore.get(key)).toEqual({ firstName: 'Bob', lastName: 'Ray', email: null });
+  });
+
+  test('writes the upgraded value back with persistMigrated', () => {
+    localStorage.setItem(getFullName('versions', 'persist'), '{"name":"Ann Lee"}');
+    const key = createKey<User>('versions', 'persist', 'local', { migrations, persistMigrated: true });
+
+    StrictStore.get(key);
+
+    expect(raw('versions', 'persist')).toBe(
+      '{"__type":"entry","meta":{"version":2},"value":{"firstName":"Ann","lastName":"Lee","email":null}}'
+    );
+  });
+
+  test('entries upgrades values of known keys', () => {
+    localStorage.setItem(getFullName('versions', 'entries'), '{"name":"Ann Lee"}');
+    createKey<User>('versions', 'entries', 'local', { migrations });
+
+    expect(StrictStore.entries(['versions'])[0].value).toEqual({ firstName: 'Ann', lastName: 'Lee', email: null });
+  });
+
+  test('values that cannot be upgraded are invalid', () => {
+    const key = createKey<User>('versions', 'too-new', 'local', { migrations, onInvalid: 'throw' });
+    localStorage.setItem(
+      getFullName('versions', 'too-new'),
+      '{"__type":"entry","meta":{"version":3},"value":{}}',
+    );
+
+    expect(() => StrictStore.get(key)).toThrow(StrictStoreValidationError);
+  });
+
+  test('only the newest migrations may be kept', () => {
+    const key = createKey<User>('versions', 'dropped', 'local', {
+      version: 2,
+      migrations: [migrations[1]],
+    });
+
+    localStorage.setItem(getFullName('versions', 'dropped'), '{"name":"Ann Lee"}');
+    expect(StrictStore.get(key)).toBe(null);
+
+    localStorage.setItem(
+      getFullName('versions', 'dropped'),
+      '{"__type":"entry","meta":{"version":1},"value":{"firstName":"Bob","lastName":"Ray"}}',
+    );
+    expect(StrictStore.get(key)).toEqual({ firstName: 'Bob', lastName: 'Ray', email: null });
+  });
+
+  test('createKey rejects a version lower than the number of migrations', () => {
+    expect(() => createKey<User>('versions', 'wrong', 'local', { version: 1, migrations }))
+      .toThrow('The key version cannot be lower than the number of migrations.');
+  });
+
+  test('migrateAll upgrades and saves every outdated value', () => {
+    localStorage.setItem(getFullName('versions', 'a'), '{"name":"Ann Lee"}');
+    localStorage.setItem(getFullName('versions', 'b'), '{"name":"Bob Ray"}');
+    localStorage.setItem(getFullName('versions', 'plain'), '1');
+
+    const keyA = createKey<User>('versions', 'a', 'local', { migrations });
+    createKey<User>('versions', 'b', 'local', { migrations });
+    StrictStore.save(createKey<User>('versions', 'c', 'local', { migrations }), {
+      firstName: 'Cid',
+      lastName: 'Fox',
+      email: 'cid@example.com',
+    });
+
+    expect(StrictStore.migrateAll(['versions'])).toBe(2);
+    expect(raw('versions', 'a')).toBe(
+      '{"__type":"entry","meta":{"version":2},"value":{"firstName":"Ann","lastName":"Lee","email":null}}'
+    );
+    expect(StrictStore.get(keyA)).toEqual({ firstName: 'Ann', lastName: 'Lee', email: null });
+    expect(StrictStore.migrateAll(['versions'])).toBe(0);
+  });
+
+  test('version metadata is combined with TTL', () => {
+    const key = createKey<User>('versions', 'ttl', 'local', { migrations, ttl: 1000 });
+    StrictStore.save(key, { firstName: 'Ann', lastName: 'Lee', email: null });
+
+    expect(raw('versions', 'ttl')).toMatch(/^\{"__type":"entry","meta":\{"expiresAt":\d+,"version":2\},"value":/);
+    expect(StrictStore.get(key)).toEqual({ firstName: 'Ann', lastName: 'Lee', email: null });
+  });
+});
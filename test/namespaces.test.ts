@@ -0,0 +1,85 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('Nested namespaces', () => {
+  const rootKey = createKey<string>('app', 'version');
+  const themeKey = createKey<'light' | 'dark'>('app/settings', 'theme');
+  const densityKey = createKey<number>(['app', 'settings', 'ui'], 'density', 'session');
+  const otherKey = createKey<string>('apple', 'variety');
+
+  beforeEach(() => {
+    StrictStore.save(rootKey, '1.0');
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(densityKey, 2);
+    StrictStore.save(otherKey, 'fuji');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('joins namespace paths with "/"', () => {
+    expect(densityKey.ns).toBe('app/settings/ui');
+    expect(sessionStorage.getItem('strict-store/app/settings/ui:density')).toBe('2');
+    expect(StrictStore.get(createKey<number>('app/settings/ui', 'density', 'session'))).toBe(2);
+  });
+
+  it('rejects empty segments', () => {
+    expect(() => createKey<string>('app//settings', 'theme')).toThrow('Namespace segments cannot be empty.');
+    expect(() => createKey<string>(['app', ''], 'theme')).toThrow('Namespace segments cannot be empty.');
+    expect(() => createKey<string>([], 'theme')).toThrow('The name or namespace cannot be empty.');
+  });
+
+  it('matches only the given namespace by default', () => {
+    expect(StrictStore.keys(['app']).map(key => key.name)).toEqual(['version']);
+    expect(StrictStore.size([['app', 'settings']])).toBe(1);
+  });
+
+  it('includes descendants on request', () => {
+    const names = (keys: { name: string }[]) => keys.map(key => key.name).sort();
+
+    expect(names(StrictStore.keys(['app'], { descendants: true }))).toEqual(['density', 'theme', 'version']);
+    expect(names(StrictStore.entries(['app/settings'], { descendants: true }).map(({ key }) => key)))
+      .toEqual(['density', 'theme']);
+    expect(StrictStore.size([['app', 'settings', 'ui']], { descendants: true })).toBe(1);
+
+    const seen: string[] = [];
+    StrictStore.forEach(key => seen.push(key.ns), ['app'], { descendants: true });
+    expect(seen.sort()).toEqual(['app', 'app/settings', 'app/settings/ui']);
+  });
+
+  it('clears a whole subtree', () => {
+    StrictStore.clear(['app/settings'], { descendants: true });
+
+    expect(StrictStore.has([rootKey, themeKey, densityKey, otherKey])).toEqual([true, false, false, true]);
+  });
+
+  it('observes a subtree', () => {
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback, ['app/settings'], { descendants: true });
+
+    StrictStore.save(rootKey, '2.0');
+    StrictStore.save(otherKey, 'gala');
+    StrictStore.save(densityKey, 3);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ ns: 'app/settings/ui', name: 'density' }), 3, 2, 'local'
+    );
+
+    unsubscribe();
+  });
+
+  it('observes a single namespace given as a path', () => {
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback, [['app', 'settings']]);
+
+    StrictStore.save(densityKey, 3);
+    StrictStore.save(themeKey, 'light');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ name: 'theme' }), 'light', 'dark', 'local');
+
+    unsubscribe();
+  });
+});
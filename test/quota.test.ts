@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import {
+  StorageAdapter,
+  StrictStore,
+  StrictStoreQuotaError,
+  createKey,
+  createMemoryAdapter,
+  createStrictStore,
+  registerEvictable,
+  registerStorage,
+} from '@src/strict-store';
+
+declare module '@src/types' {
+  interface CustomStoreTypes {
+    limited: true;
+    broken: true;
+  }
+}
+
+const LIMIT = 200;
+
+const quotaError = () => Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' });
+
+describe('Quota', () => {
+  const memory = createMemoryAdapter();
+  const used = () => memory.keys().reduce((sum, name) => sum + name.length + memory.get(name)!.length, 0);
+
+  const limited: StorageAdapter = {
+    get: name => memory.get(name),
+    set(name, value) {
+      const current = memory.get(name);
+      const next = used() - (current === null ? 0 : name.length + current.length) + name.length + value.length;
+      if (next > LIMIT) throw quotaError();
+
+      memory.set(name, value);
+    },
+    remove: name => memory.remove(name),
+    keys: () => memory.keys(),
+    get length() {
+      return memory.length;
+    },
+  };
+
+  const unregisterStorage = registerStorage('limited', limited);
+  const unregisterEvictable = registerEvictable('cache');
+
+  const cacheKey = (name: string) => createKey<string>('cache', name, 'limited');
+  const settingsKey = createKey<string>('settings', 'theme', 'limited');
+  const reportKey = createKey<string>('reports', 'latest', 'limited', { quota: 'evict' });
+
+  const app = createStrictStore({ prefix: 'app' });
+
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+  });
+
+  afterEach(() => {
+    StrictStore.clear();
+    app.clear();
+    memory.remove('strict-store:access');
+    memory.remove('app:access');
+    now.mockRestore();
+  });
+
+  afterAll(() => {
+    unregisterStorage();
+    unregisterEvictable();
+  });
+
+  it('throws a typed error naming the key and payload size', () => {
+    const size = ('strict-store/settings:theme'.length + LIMIT + 2) * 2;
+
+    try {
+      StrictStore.save(settingsKey, 'x'.repeat(LIMIT));
+      fail('The write should not fit');
+    } catch (e) {
+      expect(e).toBeInstanceOf(StrictStoreQuotaError);
+      expect((e as StrictStoreQuotaError).key).toBe(settingsKey);
+      expect((e as StrictStoreQuotaError).size).toBe(size);
+      expect((e as Error).message).toBe(
+        `StrictStore: Not enough storage space to save "strict-store/settings:theme" (${size} bytes).`
+      );
+    }
+  });
+
+  it('names the key with the prefix of its store', () => {
+    expect(() => app.save(settingsKey, 'x'.repeat(LIMIT))).toThrow('"app/settings:theme"');
+  });
+
+  it('does not evict with the default policy', () => {
+    StrictStore.save(cacheKey('a'), 'x'.repeat(40));
+
+    expect(() => StrictStore.save(settingsKey, 'x'.repeat(100))).toThrow(StrictStoreQuotaError);
+    expect(StrictStore.has(cacheKey('a'))).toBe(true);
+  });
+
+  it('evicts least recently used entries of evictable namespaces', () => {
+    StrictStore.save(cacheKey('a'), 'x'.repeat(20));
+    now.mockReturnValue(2_000);
+    StrictStore.save(cacheKey('b'), 'x'.repeat(20));
+    now.mockReturnValue(61_000);
+    StrictStore.get(cacheKey('a'));
+
+    StrictStore.save(settingsKey, 'x'.repeat(60), { quota: 'evict' });
+
+    expect(StrictStore.has([cacheKey('a'), cacheKey('b'), settingsKey])).toEqual([true, false, true]);
+  });
+
+  it('only evicts entries of its own store', () => {
+    StrictStore.save(cacheKey('a'), 'x'.repeat(20));
+    now.mockReturnValue(2_000);
+    app.save(cacheKey('b'), 'x'.repeat(20));
+
+    app.save(settingsKey, 'x'.repeat(40), { quota: 'evict' });
+
+    expect(StrictStore.has(cacheKey('a'))).toBe(true);
+    expect(app.has([cacheKey('b'), settingsKey])).toEqual([false, true]);
+    expect(memory.get('strict-store:access')).toBe(JSON.stringify({ 'strict-store/cache:a': 1_000 }));
+  });
+
+  it('records access times at most once a minute', () => {
+    StrictStore.save(cacheKey('a'), 'x');
+    const set = jest.spyOn(memory, 'set');
+
+    now.mockReturnValue(60_000);
+    StrictStore.get(cacheKey('a'));
+    expect(set).not.toHaveBeenCalled();
+
+    now.mockReturnValue(61_000);
+    StrictStore.get(cacheKey('a'));
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(memory.get('strict-store:access')).toBe(JSON.stringify({ 'strict-store/cache:a': 61_000 }));
+
+    set.mockRestore();
+  });
+
+  it('uses the quota policy of the key', () => {
+    StrictStore.save(cacheKey('a'), 'x'.repeat(60));
+
+    StrictStore.save(reportKey, 'x'.repeat(60));
+
+    expect(StrictStore.has([cacheKey('a'), reportKey])).toEqual([false, true]);
+  });
+
+  it('throws when nothing is left to evict', () => {
+    StrictStore.save(cacheKey('a'), 'x'.repeat(20));
+
+    expect(() => StrictStore.save(settingsKey, 'x'.repeat(LIMIT), { quota: 'evict' })).toThrow(StrictStoreQuotaError);
+    expect(StrictStore.has(cacheKey('a'))).toBe(false);
+  });
+
+  it('restores earlier values when a batch does not fit', () => {
+    const first = createKey<string>('settings', 'first', 'limited');
+    StrictStore.save(first, 'old');
+
+    expect(() => StrictStore.saveBatch([
+      [first, 'new'],
+      [createKey<string>('settings', 'second', 'limited'), 'x'],
+      [createKey<string>('settings', 'third', 'limited'), 'x'.repeat(LIMIT)],
+    ])).toThrow(StrictStoreQuotaError);
+
+    expect(StrictStore.get(first)).toBe('old');
+    expect(StrictStore.size()).toBe(1);
+  });
+
+  it('does not evict entries of the same batch', () => {
+    const batchKey = createKey<string>('cache', 'batch', 'limited', { quota: 'evict' });
+
+    expect(() => StrictStore.saveBatch([
+      [cacheKey('a'), 'x'.repeat(60)],
+      [batchKey, 'x'.repeat(60)],
+    ])).toThrow(StrictStoreQuotaError);
+
+    expect(StrictStore.size()).toBe(0);
+  });
+
+  it('lets other storage errors through', () => {
+    const failing: StorageAdapter = { ...createMemoryAdapter(), length: 0, set: () => { throw new Error('Broken') } };
+    const unregister = registerStorage('broken', failing);
+
+    expect(() => StrictStore.save(createKey<string>('cache', 'x', 'broken'), 'x', { quota: 'evict' })).toThrow('Broken');
+
+    unregister();
+  });
+});
@@ -0,0 +1,151 @@
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { StrictStore, createKey, createStrictStore } from '@src/strict-store';
+import { SetStoreValue, usePick, useStoreValue } from '@src/react';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('React bindings', () => {
+  const themeKey = createKey<'light' | 'dark'>('react', 'theme', 'local', { default: 'light' });
+  const tagsKey = createKey<Set<string>>('react', 'tags');
+  const countKey = createKey<number>('react', 'count', 'session');
+
+  let container: HTMLDivElement;
+  let root: Root;
+
+  let rerender: () => void;
+
+  const render = (hook: () => void) => {
+    const Component = (_: { renders: number }) => {
+      hook();
+      return null;
+    };
+
+    let renders = 0;
+    rerender = () => act(() => root.render(createElement(Component, { renders: ++renders })));
+    rerender();
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  describe('useStoreValue', () => {
+    it('returns the stored value or the default', () => {
+      let theme: 'light' | 'dark' | undefined;
+      let tags: Set<string> | null | undefined;
+      render(() => {
+        [theme] = useStoreValue(themeKey);
+        [tags] = useStoreValue(tagsKey);
+      });
+
+      expect(theme).toBe('light');
+      expect(tags).toBeNull();
+    });
+
+    it('writes through the setter and updates from other writes', () => {
+      const values: number[] = [];
+      let setCount!: SetStoreValue<number, number | null>;
+      render(() => {
+        const [count, set] = useStoreValue(countKey);
+        values.push(count ?? 0);
+        setCount = set;
+      });
+
+      const seen: (number | null)[] = [];
+      act(() => setCount(prev => {
+        seen.push(prev);
+        return 1;
+      }));
+      act(() => setCount(prev => prev! + 1));
+      expect(seen).toEqual([null]);
+      expect(StrictStore.get(countKey)).toBe(2);
+
+      act(() => StrictStore.save(countKey, 10));
+      expect(values[values.length - 1]).toBe(10);
+
+      act(() => setCount(null));
+      expect(StrictStore.has(countKey)).toBe(false);
+      expect(values[values.length - 1]).toBe(0);
+    });
+
+    it('types the updater from the key default', () => {
+      let setTheme!: SetStoreValue<'light' | 'dark'>;
+      let setCount!: SetStoreValue<number, number | null>;
+      render(() => {
+        setTheme = useStoreValue(themeKey)[1];
+        setCount = useStoreValue(countKey)[1];
+      });
+
+      act(() => setTheme(prev => (prev === 'light' ? 'dark' : 'light')));
+      expect(StrictStore.get(themeKey)).toBe('dark');
+
+      // @ts-expect-error
+      const increment: Parameters<typeof setCount>[0] = (prev: number) => prev + 1;
+      expect(increment).toBeInstanceOf(Function);
+    });
+
+    it('keeps the snapshot reference while the value is unchanged', () => {
+      StrictStore.save(tagsKey, new Set(['a']));
+      const snapshots: (Set<string> | null)[] = [];
+      render(() => {
+        snapshots.push(useStoreValue(tagsKey)[0]);
+      });
+
+      act(() => StrictStore.save(tagsKey, new Set(['a'])));
+      rerender();
+
+      expect(new Set(snapshots).size).toBe(1);
+    });
+
+    it('uses the given store', () => {
+      const store = createStrictStore({ prefix: 'react-app' });
+      store.save(themeKey, 'dark');
+      let theme: string | undefined;
+      render(() => {
+        [theme] = useStoreValue(themeKey, { store });
+      });
+
+      expect(theme).toBe('dark');
+    });
+
+  });
+
+  describe('usePick', () => {
+    it('returns typed tuples and updates on changes of any key', () => {
+      const results: (readonly ['light' | 'dark', Set<string> | null, number | null])[] = [];
+      render(() => {
+        results.push(usePick([themeKey, tagsKey, countKey]));
+      });
+
+      act(() => StrictStore.save(countKey, 3));
+
+      expect(results[0]).toEqual(['light', null, null]);
+      expect(results[results.length - 1]).toEqual(['light', null, 3]);
+    });
+
+    it('keeps the tuple while the values are unchanged', () => {
+      const results: unknown[] = [];
+      render(() => {
+        results.push(usePick([themeKey, countKey]));
+      });
+
+      act(() => StrictStore.save(tagsKey, new Set(['ignored'])));
+      act(() => StrictStore.save(themeKey, 'light'));
+      rerender();
+
+      expect(new Set(results).size).toBe(1);
+    });
+  });
+});
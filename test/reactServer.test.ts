@@ -0,0 +1,23 @@
+/**
+ * @jest-environment node
+ */
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { createKey } from '@src/strict-store';
+import { usePick, useStoreValue } from '@src/react';
+
+describe('React bindings on the server', () => {
+  const themeKey = createKey<'light' | 'dark'>('react', 'theme', 'local', { default: 'light' });
+  const countKey = createKey<number>('react', 'count', 'session');
+
+  it('renders the key defaults without touching storage', () => {
+    const Component = () => {
+      const [theme] = useStoreValue(themeKey);
+      const [, count] = usePick([themeKey, countKey]);
+
+      return createElement('span', null, `${theme} ${count}`);
+    };
+
+    expect(renderToString(createElement(Component))).toBe('<span>light null</span>');
+  });
+});
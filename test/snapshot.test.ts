@@ -0,0 +1,155 @@
+import { StoreSnapshot, StrictStore, createKey } from '@src/strict-store';
+
+describe('Snapshots', () => {
+  const themeKey = createKey<'light' | 'dark'>('settings', 'theme');
+  const limitsKey = createKey<Map<string, bigint>>('settings', 'limits', 'session');
+  const samplesKey = createKey<Int16Array>('settings/audio', 'samples');
+  const draftKey = createKey<Set<string>>('drafts', 'tags');
+
+  const fill = () => {
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(limitsKey, new Map([['daily', 10n ** 20n]]));
+    StrictStore.save(samplesKey, new Int16Array([1, -2, 3]));
+    StrictStore.save(draftKey, new Set(['a']));
+  };
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('exports a versioned document', () => {
+    fill();
+    const snapshot = StrictStore.exportSnapshot(['settings']);
+
+    expect(snapshot).toEqual({
+      format: 'strict-store/snapshot',
+      version: 1,
+      createdAt: expect.any(String),
+      entries: expect.arrayContaining([
+        { ns: 'settings', name: 'theme', storeType: 'local', value: '"dark"' },
+        expect.objectContaining({ ns: 'settings', name: 'limits', storeType: 'session' }),
+      ]),
+    });
+    expect(snapshot.entries).toHaveLength(2);
+    expect(StrictStore.exportSnapshot(['settings'], { descendants: true }).entries).toHaveLength(3);
+  });
+
+  it('round-trips complex values through JSON', () => {
+    fill();
+    const json = JSON.stringify(StrictStore.exportSnapshot());
+    StrictStore.clear();
+
+    const result = StrictStore.importSnapshot(json);
+
+    expect(result.imported).toHaveLength(4);
+    expect(result.conflicts).toEqual([]);
+    expect(result.skipped).toEqual([]);
+    expect(StrictStore.pick([themeKey, limitsKey, samplesKey, draftKey])).toEqual([
+      'dark',
+      new Map([['daily', 10n ** 20n]]),
+      new Int16Array([1, -2, 3]),
+      new Set(['a']),
+    ]);
+  });
+
+  it('keeps differing values when merging', () => {
+    fill();
+    const snapshot = StrictStore.exportSnapshot();
+    StrictStore.save(themeKey, 'light');
+    StrictStore.remove([draftKey]);
+
+    const result = StrictStore.importSnapshot(snapshot);
+
+    expect(result.conflicts).toEqual([expect.objectContaining({ ns: 'settings', name: 'theme' })]);
+    expect(StrictStore.get(themeKey)).toBe('light');
+    expect(StrictStore.get(draftKey)).toEqual(new Set(['a']));
+  });
+
+  it('overwrites values and removes missing items when replacing', () => {
+    StrictStore.save(themeKey, 'dark');
+    const snapshot = StrictStore.exportSnapshot();
+    StrictStore.save(themeKey, 'light');
+    StrictStore.save(draftKey, new Set(['b']));
+
+    const result = StrictStore.importSnapshot(snapshot, { mode: 'replace' });
+
+    expect(result.conflicts).toEqual([expect.objectContaining({ name: 'theme' })]);
+    expect(StrictStore.get(themeKey)).toBe('dark');
+    expect(StrictStore.has(draftKey)).toBe(false);
+  });
+
+  it('restricts the import to namespaces', () => {
+    fill();
+    const snapshot = StrictStore.exportSnapshot();
+    StrictStore.clear();
+    StrictStore.save(createKey<number>('drafts', 'count'), 1);
+
+    StrictStore.importSnapshot(snapshot, { mode: 'replace', ns: ['settings'] });
+
+    expect(StrictStore.keys().map(key => key.name).sort()).toEqual(['count', 'limits', 'theme']);
+  });
+
+  it('skips entries that cannot be imported', () => {
+    const strictKey = createKey<number>('checked', 'count', 'local', {
+      validate: (value): value is number => typeof value === 'number',
+    });
+    const snapshot: StoreSnapshot = {
+      format: 'strict-store/snapshot',
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: [
+        { ns: 'checked', name: 'count', storeType: 'local', value: '"nope"' },
+        { ns: 'old', name: 'cache', storeType: 'local', value: '1', expiresAt: 1 },
+        { ns: 'app', name: 'x', storeType: 'nowhere' as 'local', value: '1' },
+        { ns: 'app', name: 'bad:name', storeType: 'local', value: '1' },
+        { ns: 'app', name: 'ok', storeType: 'local', value: '1' },
+      ],
+    };
+
+    const { imported, skipped } = StrictStore.importSnapshot(snapshot);
+
+    expect(imported).toEqual([expect.objectContaining({ ns: 'app', name: 'ok' })]);
+    expect(skipped.map(({ reason }) => reason)).toEqual(['invalid', 'expired', 'unknown-storage', 'malformed']);
+    expect(StrictStore.has(strictKey)).toBe(false);
+  });
+
+  it('skips values that cannot be parsed', () => {
+    const snapshot: StoreSnapshot = {
+      format: 'strict-store/snapshot',
+      version: 1,
+      createdAt: new Date().toISOString(),
+      entries: [
+        { ns: 'app', name: 'text', storeType: 'local', value: '{not json' },
+        { ns: 'app', name: 'money', storeType: 'local', value: '{"__type":"custom","value":1,"subtype":"money"}' },
+      ],
+    };
+
+    const { imported, skipped } = StrictStore.importSnapshot(snapshot);
+
+    expect(imported).toEqual([]);
+    expect(skipped.map(({ reason }) => reason)).toEqual(['invalid', 'invalid']);
+    expect(StrictStore.size()).toBe(0);
+  });
+
+  it('rejects documents that are not snapshots', () => {
+    expect(() => StrictStore.importSnapshot('not json')).toThrow(
+      'StrictStore.importSnapshot: The document is not a StrictStore snapshot.'
+    );
+    expect(() => StrictStore.importSnapshot({ format: 'strict-store/snapshot', version: 2, entries: [] } as never))
+      .toThrow('StrictStore.importSnapshot: Unsupported snapshot version 2.');
+  });
+
+  it('notifies listeners once per changed key', () => {
+    fill();
+    const snapshot = StrictStore.exportSnapshot(['settings']);
+    StrictStore.save(themeKey, 'light');
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback);
+
+    StrictStore.importSnapshot(snapshot, { mode: 'replace', ns: ['settings'] });
+
+    expect(callback.mock.calls).toEqual([[expect.objectContaining({ name: 'theme' }), 'dark', 'light', 'local']]);
+    unsubscribe();
+  });
+});
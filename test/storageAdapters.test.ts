@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import {
+  StrictStore,
+  StorageAdapter,
+  StorageChange,
+  createKey,
+  createMemoryAdapter,
+  registerStorage,
+} from '@src/strict-store';
+
+declare module '@src/types' {
+  interface CustomStoreTypes {
+    custom: true;
+  }
+}
+
+describe('Storage adapters', () => {
+  const listeners = new Set<(change: StorageChange) => void>();
+  const memory = createMemoryAdapter();
+  const customAdapter: StorageAdapter = {
+    get: name => memory.get(name),
+    set: (name, value) => memory.set(name, value),
+    remove: name => memory.remove(name),
+    keys: () => memory.keys(),
+    get length() {
+      return memory.length;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  let unregister: () => void;
+
+  beforeAll(() => {
+    unregister = registerStorage('custom', customAdapter);
+  });
+
+  afterAll(() => {
+    unregister();
+  });
+
+  beforeEach(() => {
+    StrictStore.clear();
+  });
+
+  test('web storages are empty outside the browser', () => {
+    const localKey = createKey<string>('adapters', 'local');
+
+    expect(typeof localStorage).toBe('undefined');
+    expect(StrictStore.get(localKey)).toBe(null);
+    expect(StrictStore.has(localKey)).toBe(false);
+    expect(() => StrictStore.save(localKey, 'x')).toThrow(
+      'StrictStore: localStorage is not available in this environment.'
+    );
+  });
+
+  test('memory storage works end to end', () => {
+    const key = createKey<Map<string, bigint>>('adapters', 'memory', 'memory');
+    StrictStore.save(key, new Map([['a', 1n]]));
+
+    expect(StrictStore.get(key)).toEqual(new Map([['a', 1n]]));
+    expect(StrictStore.entries(['adapters'])).toEqual([
+      { key: expect.objectContaining({ ns: 'adapters', name: 'memory', storeType: 'memory' }), value: new Map([['a', 1n]]) },
+    ]);
+    expect(StrictStore.size()).toBe(1);
+
+    StrictStore.clear(['adapters']);
+    expect(StrictStore.has(key)).toBe(false);
+  });
+
+  test('registered storages take part in entries, keys, size and clear', () => {
+    const customKey = createKey<number>('adapters', 'custom', 'custom');
+    const memoryKey = createKey<number>('adapters', 'other', 'memory');
+
+    StrictStore.saveBatch([
+      [customKey, 1],
+      [memoryKey, 2],
+    ]);
+
+    expect(customAdapter.get('strict-store/adapters:custom')).toBe('1');
+    expect(StrictStore.keys().map(key => key.storeType).sort()).toEqual(['custom', 'memory']);
+    expect(StrictStore.size(['adapters'])).toBe(2);
+
+    expect(customAdapter.length).toBe(1);
+
+    StrictStore.clear();
+    expect(customAdapter.length).toBe(0);
+  });
+
+  test('onChange listens to adapters that report changes', () => {
+    const key = createKey<string>('adapters', 'watched', 'custom');
+    const calls: unknown[][] = [];
+
+    const unsubscribe = StrictStore.onChange((changedKey, newValue, oldValue) => {
+      calls.push([changedKey.storeType, changedKey.name, newValue, oldValue]);
+    }, [key]);
+
+    listeners.forEach(listener => listener({
+      name: 'strict-store/adapters:watched',
+      newValue: '"new"',
+      oldValue: '"old"',
+    }));
+    listeners.forEach(listener => listener({ name: null, newValue: null, oldValue: null }));
+
+    expect(calls).toEqual([['custom', 'watched', 'new', 'old']]);
+
+    unsubscribe();
+    expect(listeners.size).toBe(0);
+  });
+
+  test('registerStorage rejects built-in and duplicated types', () => {
+    expect(() => registerStorage('memory', createMemoryAdapter())).toThrow(
+      'registerStorage: The storage type "memory" is built in.'
+    );
+    expect(() => registerStorage('custom', createMemoryAdapter())).toThrow(
+      'registerStorage: The storage type "custom" is already registered.'
+    );
+  });
+
+  test('unknown storage types throw', () => {
+    const key = createKey<number>('adapters', 'unknown', 'nope' as any);
+
+    expect(() => StrictStore.get(key)).toThrow('StrictStore: Unknown storage type "nope".');
+  });
+});
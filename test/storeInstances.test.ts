@@ -0,0 +1,121 @@
+import { StrictStore, createKey, createMemoryAdapter, createStrictStore } from '@src/strict-store';
+
+describe('createStrictStore', () => {
+  const cartKey = createKey<Set<string>>('cart', 'items');
+  const themeKey = createKey<'light' | 'dark'>('app', 'theme', 'local', { default: 'light' });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('keeps stores with different prefixes apart', () => {
+    const checkout = createStrictStore({ prefix: 'checkout' });
+    const catalog = createStrictStore({ prefix: 'catalog' });
+
+    checkout.save(cartKey, new Set(['book']));
+    StrictStore.save(cartKey, new Set(['pen']));
+
+    expect(localStorage.getItem('checkout/cart:items')).not.toBeNull();
+    expect(checkout.get(cartKey)).toEqual(new Set(['book']));
+    expect(StrictStore.get(cartKey)).toEqual(new Set(['pen']));
+    expect(catalog.get(cartKey)).toBeNull();
+    expect(catalog.get(themeKey)).toBe('light');
+  });
+
+  it('lists and clears only its own items', () => {
+    const checkout = createStrictStore({ prefix: 'checkout' });
+
+    checkout.save(cartKey, new Set(['book']));
+    checkout.save(themeKey, 'dark');
+    StrictStore.save(cartKey, new Set(['pen']));
+
+    expect(checkout.size()).toBe(2);
+    expect(checkout.keys(['cart'])).toEqual([expect.objectContaining({ ns: 'cart', name: 'items' })]);
+    expect(StrictStore.size()).toBe(1);
+
+    checkout.clear();
+
+    expect(checkout.size()).toBe(0);
+    expect(StrictStore.get(cartKey)).toEqual(new Set(['pen']));
+  });
+
+  it('keeps its settings in methods detached from it', () => {
+    const { save, get } = createStrictStore({ prefix: 'checkout' });
+
+    save(cartKey, new Set(['book']));
+
+    expect(localStorage.getItem('checkout/cart:items')).not.toBeNull();
+    expect([cartKey].map(get)).toEqual([new Set(['book'])]);
+    expect(StrictStore.get(cartKey)).toBeNull();
+  });
+
+  it('notifies only listeners of the same store', () => {
+    const checkout = createStrictStore({ prefix: 'checkout' });
+    const ownCallback = jest.fn();
+    const defaultCallback = jest.fn();
+    const unsubscribeOwn = checkout.onChange(ownCallback);
+    const unsubscribeDefault = StrictStore.onChange(defaultCallback);
+
+    checkout.save(themeKey, 'dark');
+
+    expect(ownCallback).toHaveBeenCalledWith(expect.objectContaining({ name: 'theme' }), 'dark', null, 'local');
+    expect(defaultCallback).not.toHaveBeenCalled();
+
+    unsubscribeOwn();
+    unsubscribeDefault();
+  });
+
+  it('uses its own storage adapters', () => {
+    const memory = createMemoryAdapter();
+    const sandbox = createStrictStore({ storages: { local: memory } });
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback);
+
+    sandbox.save(themeKey, 'dark');
+
+    expect(memory.get('strict-store/app:theme')).toBe('"dark"');
+    expect(localStorage.getItem('strict-store/app:theme')).toBeNull();
+    expect(StrictStore.get(themeKey)).toBe('light');
+    expect(callback).not.toHaveBeenCalled();
+
+    unsubscribe();
+  });
+
+  it('uses its own serializer', () => {
+    const base64 = createStrictStore({
+      prefix: 'encoded',
+      serializer: {
+        stringify: value => btoa(JSON.stringify(value)),
+        parse: text => JSON.parse(atob(text)),
+      },
+    });
+    const profileKey = createKey<{ name: string }>('user', 'profile');
+
+    base64.save(profileKey, { name: 'Ada' });
+
+    expect(localStorage.getItem('encoded/user:profile')).toBe(btoa('{"name":"Ada"}'));
+    expect(base64.get(profileKey)).toEqual({ name: 'Ada' });
+    expect(base64.entries()).toEqual([{ key: expect.objectContaining({ name: 'profile' }), value: { name: 'Ada' } }]);
+  });
+
+  it('supports batches and transactions', () => {
+    const checkout = createStrictStore({ prefix: 'checkout' });
+
+    checkout.saveBatch([[cartKey, new Set(['book'])]]);
+    checkout.transaction(tx => {
+      tx.merge(createKey<{ total: number }>('cart', 'summary', 'local', { default: { total: 0 } }), { total: 5 });
+      tx.remove([cartKey]);
+    });
+
+    expect(Object.keys(localStorage)).toEqual(['checkout/cart:summary']);
+  });
+
+  it('rejects invalid prefixes', () => {
+    const message = 'must not be empty or contain "/" or ":"';
+
+    expect(() => createStrictStore({ prefix: '' })).toThrow(message);
+    expect(() => createStrictStore({ prefix: 'a/b' })).toThrow(message);
+    expect(() => createStrictStore({ prefix: 'a:b' })).toThrow(message);
+  });
+});
@@ -73,6 +73,15 @@ describe('StrictStore', () => {
     test('does not throw when getting non-existent key', () => {
       expect(() => StrictStore.get(keys.stringKey)).not.toThrow();
     });
+
+    test('works with methods detached from the store', () => {
+      const { save, update } = StrictStore;
+
+      save(keys.stringKey, 'detached');
+      update(keys.numberKey, prev => (prev ?? 0) + 1);
+
+      expect([keys.stringKey, keys.numberKey].map(StrictStore.get)).toEqual(['detached', 1]);
+    });
   });
 
   describe('StrictStore.has', () => {
@@ -801,6 +810,59 @@ describe('StrictStore', () => {
       strictTest(key, new BigUint64Array([3n, 1n, 2n]));
     });
 
+    test('Date', () => {
+      const key = createKey<Date>('types', 'date');
+      strictTest(key, new Date('2024-05-01T10:20:30.456Z'));
+
+      const result = StrictStore.get(key);
+      expect(result).toBeInstanceOf(Date);
+      expect(result?.toISOString()).toBe('2024-05-01T10:20:30.456Z');
+    });
+
+    test('invalid Date', () => {
+      const key = createKey<Date>('types', 'invalid-date');
+      StrictStore.save(key, new Date(NaN));
+
+      const result = StrictStore.get(key);
+      expect(result).toBeInstanceOf(Date);
+      expect(Number.isNaN(result!.getTime())).toBe(true);
+    });
+
+    test('RegExp', () => {
+      const key = createKey<RegExp>('types', 'regexp');
+      strictTest(key, /^strict-(\w+):\d+$/gi);
+
+      const result = StrictStore.get(key);
+      expect(result).toBeInstanceOf(RegExp);
+      expect(result?.source).toBe('^strict-(\\w+):\\d+$');
+      expect(result?.flags).toBe('gi');
+    });
+
+    test('URL', () => {
+      const key = createKey<URL>('types', 'url');
+      StrictStore.save(key, new URL('https://example.com/path?q=1#hash'));
+
+      const result = StrictStore.get(key);
+      expect(result).toBeInstanceOf(URL);
+      expect(result?.href).toBe('https://example.com/path?q=1#hash');
+    });
+
+    test('special numbers: NaN, Infinity, -Infinity, -0', () => {
+      strictTest(createKey<number>('types', 'nan'), NaN);
+      strictTest(createKey<number>('types', 'infinity'), Infinity);
+      strictTest(createKey<number>('types', 'negative-infinity'), -Infinity);
+      strictTest(createKey<number>('types', 'negative-zero'), -0);
+    });
+
+    test('nested: special numbers and Date inside object', () => {
+      const key = createKey<{ at: Date; ratio: number; values: number[] }>('types', 'obj-date');
+      strictTest(key, {
+        at: new Date(0),
+        ratio: NaN,
+        values: [1, -0, Infinity],
+      });
+    });
+
     test('nested: Map inside object', () => {
       const key = createKey<{ m: Map<string, number> }>('types', 'obj-map');
       strictTest(key, { m: new Map([['a', 1]]) });
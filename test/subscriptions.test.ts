@@ -0,0 +1,104 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('Typed subscriptions', () => {
+  const themeKey = createKey<'light' | 'dark'>('subscriptions', 'theme');
+  const langKey = createKey<'en' | 'ru'>('subscriptions', 'lang', 'local', { default: 'en' });
+  const idsKey = createKey<Set<number>>('subscriptions', 'ids', 'session');
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  describe('StrictStore.subscribe', () => {
+    it('passes typed next and previous values', () => {
+      const seen: ['light' | 'dark' | null, 'light' | 'dark' | null][] = [];
+      const unsubscribe = StrictStore.subscribe(themeKey, (next, prev) => {
+        seen.push([next, prev]);
+      });
+
+      StrictStore.save(themeKey, 'dark');
+      StrictStore.save(themeKey, 'light');
+      StrictStore.remove([themeKey]);
+
+      expect(seen).toEqual([['dark', null], ['light', 'dark'], [null, 'light']]);
+      unsubscribe();
+    });
+
+    it('ignores other keys and storage types', () => {
+      const callback = jest.fn();
+      const sessionTheme = createKey<'light' | 'dark'>('subscriptions', 'theme', 'session');
+      const unsubscribe = StrictStore.subscribe(themeKey, callback);
+
+      StrictStore.save(sessionTheme, 'dark');
+      StrictStore.save(langKey, 'ru');
+
+      expect(callback).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it('restores complex values', () => {
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.subscribe(idsKey, callback);
+
+      StrictStore.save(idsKey, new Set([1, 2]));
+
+      expect(callback).toHaveBeenCalledWith(new Set([1, 2]), null, 'local');
+      unsubscribe();
+    });
+
+    it('stops after unsubscribe', () => {
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.subscribe(themeKey, callback);
+
+      unsubscribe();
+      StrictStore.save(themeKey, 'dark');
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('StrictStore.watch', () => {
+    it('passes typed tuples of current and previous values', () => {
+      type Values = readonly ['light' | 'dark' | null, 'en' | 'ru', Set<number> | null];
+      const calls: [Values, Values][] = [];
+      const unsubscribe = StrictStore.watch([themeKey, langKey, idsKey], (values, previous) => {
+        calls.push([values, previous]);
+      });
+
+      StrictStore.save(themeKey, 'dark');
+      StrictStore.save(idsKey, new Set([1]));
+      StrictStore.save(langKey, 'ru');
+
+      expect(calls).toEqual([
+        [['dark', 'en', null], [null, 'en', null]],
+        [['dark', 'en', new Set([1])], ['dark', 'en', null]],
+        [['dark', 'ru', new Set([1])], ['dark', 'en', new Set([1])]],
+      ]);
+      unsubscribe();
+    });
+
+    it('is not called when values do not change', () => {
+      StrictStore.save(idsKey, new Set([1, 2]));
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.watch([langKey, idsKey], callback);
+
+      StrictStore.save(idsKey, new Set([1, 2]));
+      StrictStore.save(langKey, 'en');
+      StrictStore.save(themeKey, 'dark');
+
+      expect(callback).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it('stops after unsubscribe', () => {
+      const callback = jest.fn();
+      const unsubscribe = StrictStore.watch([themeKey], callback);
+
+      unsubscribe();
+      StrictStore.save(themeKey, 'dark');
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { StrictStore, createKey } from '@src/strict-store';
+import { KeyStore, storeFor } from '@src/svelte';
+
+/**
+ * Reads a store the way `get` of `svelte/store` does.
+ */
+const get = <T>(store: KeyStore<T>): T => {
+  let value!: T;
+  store.subscribe(current => value = current)();
+
+  return value;
+};
+
+describe('storeFor', () => {
+  const themeKey = createKey<'light' | 'dark'>('svelte', 'theme', 'local', { default: 'light' });
+  const countKey = createKey<bigint>('svelte', 'count', 'session');
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('calls subscribers with the current value right away', () => {
+    const theme = storeFor(themeKey);
+
+    expect(get(theme)).toBe('light');
+
+    theme.set('dark');
+    expect(get(theme)).toBe('dark');
+    expect(StrictStore.get(themeKey)).toBe('dark');
+  });
+
+  it('updates and removes values', () => {
+    const count = storeFor(countKey);
+
+    count.update(prev => (prev ?? 0n) + 1n);
+    count.update(prev => (prev ?? 0n) + 1n);
+    expect(StrictStore.get(countKey)).toBe(2n);
+
+    count.set(null);
+    expect(get(count)).toBeNull();
+  });
+
+  it('notifies subscribers of external changes only when the value changes', () => {
+    const values: ('light' | 'dark')[] = [];
+    const unsubscribe = storeFor(themeKey).subscribe(value => values.push(value));
+
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.remove([themeKey]);
+
+    expect(values).toEqual(['light', 'dark', 'light']);
+    unsubscribe();
+  });
+
+  it('listens only while it has subscribers', () => {
+    const theme = storeFor(themeKey);
+    const run = jest.fn();
+    const first = theme.subscribe(run);
+    const second = theme.subscribe(run);
+
+    first();
+    StrictStore.save(themeKey, 'dark');
+    expect(run).toHaveBeenCalledTimes(3);
+
+    second();
+    StrictStore.save(themeKey, 'light');
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+});
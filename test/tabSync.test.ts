@@ -0,0 +1,146 @@
+/** @jest-environment node */
+import type * as StrictStoreModule from '@src/strict-store';
+
+type Tab = {
+  store: typeof StrictStoreModule.StrictStore;
+  session: ReturnType<typeof StrictStoreModule.createMemoryAdapter>;
+  stepKey: StrictStoreModule.StoreKey<number>;
+  draftKey: StrictStoreModule.StoreKey<string>;
+  themeKey: StrictStoreModule.StoreKey<string>;
+};
+
+// Every tab has its own copy of the library and its own session storage
+const openTab = (): Tab => {
+  let tab!: Tab;
+
+  jest.isolateModules(() => {
+    const { createKey, createMemoryAdapter, createStrictStore } = require('@src/strict-store') as typeof StrictStoreModule;
+    const session = createMemoryAdapter();
+
+    tab = {
+      store: createStrictStore({ storages: { session } }),
+      session,
+      stepKey: createKey<number>('wizard', 'step', 'session'),
+      draftKey: createKey<string>('wizard/form', 'draft', 'session'),
+      themeKey: createKey<string>('wizard', 'theme', 'local'),
+    };
+  });
+
+  return tab;
+};
+
+// BroadcastChannel delivers messages asynchronously
+const delivered = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('StrictStore.syncTabs', () => {
+  const stops: (() => void)[] = [];
+  const sync = (tab: Tab, ...args: Parameters<Tab['store']['syncTabs']>) => {
+    stops.push(tab.store.syncTabs(...args));
+  };
+
+  afterEach(() => {
+    stops.splice(0).forEach(stop => stop());
+  });
+
+  it('applies the writes of other tabs and reports them as remote', async () => {
+    const a = openTab();
+    const b = openTab();
+    const onA = jest.fn();
+    const onB = jest.fn();
+    stops.push(a.store.subscribe(a.stepKey, onA), b.store.subscribe(b.stepKey, onB));
+    sync(a, ['wizard'], { policy: 'apply' });
+    sync(b, ['wizard'], { policy: 'apply' });
+
+    a.store.save(a.stepKey, 2);
+    await delivered();
+
+    expect(b.store.get(b.stepKey)).toBe(2);
+    expect(onB).toHaveBeenCalledTimes(1);
+    expect(onB).toHaveBeenCalledWith(2, null, 'remote');
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onA).toHaveBeenCalledWith(2, null, 'local');
+
+    b.store.remove([b.stepKey]);
+    await delivered();
+
+    expect(a.store.get(a.stepKey)).toBeNull();
+    expect(onA).toHaveBeenLastCalledWith(null, 2, 'remote');
+    expect(onB).toHaveBeenCalledTimes(2);
+  });
+
+  it('only notifies listeners with the notify policy', async () => {
+    const a = openTab();
+    const b = openTab();
+    const onB = jest.fn();
+    stops.push(b.store.subscribe(b.stepKey, onB));
+    sync(a, [a.stepKey], { policy: 'notify' });
+    sync(b, [b.stepKey], { policy: 'notify' });
+
+    b.store.save(b.stepKey, 1);
+    a.store.save(a.stepKey, 3);
+    await delivered();
+
+    expect(b.store.get(b.stepKey)).toBe(1);
+    expect(onB).toHaveBeenLastCalledWith(3, null, 'remote');
+  });
+
+  it('syncs only the selected session keys', async () => {
+    const a = openTab();
+    const b = openTab();
+    const onB = jest.fn();
+    stops.push(b.store.onChange(onB));
+    sync(a, ['wizard'], { policy: 'apply' });
+    sync(b, ['wizard'], { policy: 'apply', descendants: true });
+
+    a.store.save(a.draftKey, 'draft of a');
+    await delivered();
+
+    expect(b.store.get(b.draftKey)).toBeNull();
+    expect(onB).not.toHaveBeenCalled();
+
+    b.store.save(b.draftKey, 'draft of b');
+    await delivered();
+
+    expect(a.store.get(a.draftKey)).toBe('draft of a');
+  });
+
+  it('stops syncing', async () => {
+    const a = openTab();
+    const b = openTab();
+    const stop = a.store.syncTabs(['wizard'], { policy: 'apply' });
+    sync(b, ['wizard'], { policy: 'apply' });
+
+    stop();
+    a.store.save(a.stepKey, 4);
+    b.store.save(b.stepKey, 5);
+    await delivered();
+
+    expect(a.store.get(a.stepKey)).toBe(4);
+    expect(b.store.get(b.stepKey)).toBe(5);
+  });
+
+  it('keeps stores with other prefixes apart', async () => {
+    const a = openTab();
+    const b = openTab();
+    let checkout!: Tab['store'];
+    jest.isolateModules(() => {
+      const { createStrictStore } = require('@src/strict-store') as typeof StrictStoreModule;
+      checkout = createStrictStore({ prefix: 'checkout', storages: { session: b.session } });
+    });
+    sync(a, ['wizard'], { policy: 'apply' });
+    sync(b, ['wizard'], { policy: 'apply' });
+    stops.push(checkout.syncTabs(['wizard'], { policy: 'apply' }));
+
+    checkout.save(b.stepKey, 6);
+    await delivered();
+
+    expect(a.store.get(a.stepKey)).toBeNull();
+  });
+
+  it('rejects keys that are not session keys', () => {
+    const a = openTab();
+
+    expect(() => a.store.syncTabs([a.stepKey, a.themeKey], { policy: 'apply' }))
+      .toThrow('StrictStore.syncTabs: "strict-store/wizard:theme" is not a session key.');
+  });
+});
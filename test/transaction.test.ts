@@ -0,0 +1,184 @@
+/**
+ * @jest-environment node
+ */
+import {
+  Persistable,
+  StrictStore,
+  Transaction,
+  createKey,
+  createMemoryAdapter,
+  registerStorage,
+} from '@src/strict-store';
+
+declare module '@src/types' {
+  interface CustomStoreTypes {
+    ledger: true;
+  }
+}
+
+describe('StrictStore.transaction', () => {
+  const storage = createMemoryAdapter();
+  const set = storage.set;
+  const unregister = registerStorage('ledger', storage);
+
+  const balanceKey = createKey<bigint>('bank', 'balance', 'ledger');
+  const historyKey = createKey<bigint[]>('bank', 'history', 'ledger', { default: [] });
+  const accountKey = createKey<{ owner: string; limits: { daily: number; monthly: number } }>(
+    'bank', 'account', 'ledger', { default: { owner: '', limits: { daily: 100, monthly: 1000 } } },
+  );
+
+  afterEach(() => {
+    storage.set = set;
+    StrictStore.clear();
+  });
+
+  afterAll(() => {
+    unregister();
+  });
+
+  it('commits all staged writes', () => {
+    StrictStore.save(balanceKey, 10n);
+
+    const result = StrictStore.transaction(tx => {
+      tx.save(balanceKey, 5n);
+      tx.save(historyKey, [10n, 5n]);
+      tx.merge(accountKey, { limits: { daily: 50 } });
+
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(StrictStore.pick([balanceKey, historyKey, accountKey])).toEqual([
+      5n,
+      [10n, 5n],
+      { owner: '', limits: { daily: 50, monthly: 1000 } },
+    ]);
+  });
+
+  it('reads staged writes inside the transaction', () => {
+    StrictStore.save(balanceKey, 10n);
+
+    StrictStore.transaction(tx => {
+      tx.save(balanceKey, tx.get(balanceKey)! + 1n);
+      expect(tx.get(balanceKey)).toBe(11n);
+      expect(StrictStore.get(balanceKey)).toBe(10n);
+
+      tx.merge(accountKey, { owner: 'Ada' });
+      tx.merge(accountKey, { limits: { monthly: 500 } });
+
+      tx.remove([balanceKey]);
+      expect(tx.get(balanceKey)).toBeNull();
+    });
+
+    expect(StrictStore.get(balanceKey)).toBeNull();
+    expect(StrictStore.get(accountKey)).toEqual({ owner: 'Ada', limits: { daily: 100, monthly: 500 } });
+  });
+
+  it('writes nothing when the callback throws', () => {
+    StrictStore.save(balanceKey, 10n);
+
+    expect(() => StrictStore.transaction(tx => {
+      tx.save(balanceKey, 0n);
+      throw new Error('Declined');
+    })).toThrow('Declined');
+
+    expect(StrictStore.get(balanceKey)).toBe(10n);
+  });
+
+  it('reads without side effects', () => {
+    const legacyKey = createKey<{ a: number; b: number }>('bank', 'legacy', 'ledger', {
+      migrations: [(v0: { a: number }) => ({ ...v0, b: 0 })],
+      persistMigrated: true,
+    });
+    const countKey = createKey<number>('bank', 'count', 'ledger', {
+      validate: value => typeof value === 'number',
+      onInvalid: 'remove',
+    });
+    const holdKey = createKey<number>('bank', 'hold', 'ledger', { ttl: 1000 });
+
+    StrictStore.save(holdKey, 1);
+    storage.set('strict-store/bank:legacy', '{"a":1}');
+    storage.set('strict-store/bank:count', '"x"');
+    const hold = storage.get('strict-store/bank:hold');
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback);
+
+    expect(() => StrictStore.transaction(tx => {
+      tx.merge(legacyKey, { a: 2 });
+      expect(tx.get(countKey)).toBeNull();
+      expect(tx.get(holdKey)).toBeNull();
+      throw new Error('Declined');
+    })).toThrow('Declined');
+
+    unsubscribe();
+    jest.restoreAllMocks();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(storage.get('strict-store/bank:legacy')).toBe('{"a":1}');
+    expect(storage.get('strict-store/bank:count')).toBe('"x"');
+    expect(storage.get('strict-store/bank:hold')).toBe(hold);
+  });
+
+  it('writes nothing when a value cannot be serialized', () => {
+    const cyclic: Record<string, Persistable> = {};
+    cyclic.self = cyclic;
+    const cyclicKey = createKey<Record<string, Persistable>>('bank', 'cyclic', 'ledger');
+
+    expect(() => StrictStore.transaction(tx => {
+      tx.save(balanceKey, 1n);
+      tx.save(cyclicKey, cyclic);
+    })).toThrow();
+
+    expect(StrictStore.has([balanceKey, cyclicKey])).toEqual([false, false]);
+  });
+
+  it('restores earlier writes when a write fails', () => {
+    StrictStore.save(balanceKey, 10n);
+    storage.set = (name, value) => {
+      if (name.endsWith(':history')) throw new Error('Storage failure');
+      set(name, value);
+    };
+
+    expect(() => StrictStore.transaction(tx => {
+      tx.save(balanceKey, 5n);
+      tx.save(historyKey, [5n]);
+    })).toThrow('Storage failure');
+
+    expect(StrictStore.get(balanceKey)).toBe(10n);
+    expect(StrictStore.has(historyKey)).toBe(false);
+  });
+
+  it('notifies listeners once per changed key after the commit', () => {
+    StrictStore.save(balanceKey, 10n);
+    StrictStore.save(historyKey, [10n]);
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback);
+
+    StrictStore.transaction(tx => {
+      tx.save(balanceKey, 7n);
+      tx.save(balanceKey, 5n);
+      tx.save(historyKey, [10n]);
+      tx.remove([accountKey]);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    expect(callback.mock.calls).toEqual([
+      [expect.objectContaining({ name: 'balance' }), 5n, 10n, 'local'],
+    ]);
+
+    unsubscribe();
+  });
+
+  it('rejects use after the transaction finished', () => {
+    let leaked: Transaction | undefined;
+    StrictStore.transaction(tx => {
+      leaked = tx;
+    });
+
+    expect(() => leaked!.save(balanceKey, 1n)).toThrow(
+      'StrictStore.transaction: The transaction is already finished.'
+    );
+  });
+});
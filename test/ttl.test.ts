@@ -0,0 +1,171 @@
+import { StrictStore, createKey } from '@src/strict-store';
+import { getFullName } from '@src/utils';
+
+describe('TTL expiration', () => {
+  let now = 1_700_000_000_000;
+
+  beforeEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const advance = (ms: number) => {
+    now += ms;
+  };
+
+  test('values without TTL keep the plain strictJson format', () => {
+    const key = createKey<number>('ttl', 'plain');
+    StrictStore.save(key, 1);
+
+    expect(localStorage.getItem(getFullName('ttl', 'plain'))).toBe('1');
+  });
+
+  test('key TTL expires the value', () => {
+    const key = createKey<string>('ttl', 'key-ttl', 'local', { ttl: 1000 });
+    StrictStore.save(key, 'cached');
+
+    advance(999);
+    expect(StrictStore.get(key)).toBe('cached');
+
+    advance(1);
+    expect(StrictStore.get(key)).toBe(null);
+    expect(localStorage.getItem(getFullName('ttl', 'key-ttl'))).toBe(null);
+  });
+
+  test('per-write TTL overrides the key TTL', () => {
+    const key = createKey<string>('ttl', 'write-ttl', 'local', { ttl: 1000 });
+    StrictStore.save(key, 'long', { ttl: 5000 });
+
+    advance(2000);
+    expect(StrictStore.get(key)).toBe('long');
+  });
+
+  test('absolute expiration', () => {
+    const key = createKey<number[]>('ttl', 'absolute', 'session');
+    StrictStore.save(key, [1, 2], { ttl: { expiresAt: new Date(now + 100) } });
+
+    advance(50);
+    expect(StrictStore.get(key)).toEqual([1, 2]);
+
+    advance(50);
+    expect(StrictStore.get(key)).toBe(null);
+  });
+
+  test('sliding TTL is restarted on read', () => {
+    const key = createKey<Map<string, number>>('ttl', 'sliding', 'local', {
+      ttl: { ms: 1000, sliding: true },
+    });
+    StrictStore.save(key, new Map([['a', 1]]));
+
+    advance(800);
+    expect(StrictStore.get(key)).toEqual(new Map([['a', 1]]));
+
+    advance(800);
+    expect(StrictStore.get(key)).toEqual(new Map([['a', 1]]));
+
+    advance(1000);
+    expect(StrictStore.get(key)).toBe(null);
+  });
+
+  test('reads rewrite a sliding entry only once half of its lifetime is over', () => {
+    const key = createKey<number>('ttl', 'sliding-writes', 'local', {
+      ttl: { ms: 1000, sliding: true },
+    });
+    StrictStore.save(key, 1);
+    const setItem = jest.spyOn(Storage.prototype, 'setItem');
+
+    advance(400);
+    StrictStore.get(key);
+    StrictStore.get(key);
+
+    expect(setItem).not.toHaveBeenCalledWith(getFullName('ttl', 'sliding-writes'), expect.anything());
+
+    advance(200);
+    StrictStore.get(key);
+
+    expect(setItem).toHaveBeenCalledWith(getFullName('ttl', 'sliding-writes'), expect.anything());
+
+    advance(900);
+    expect(StrictStore.get(key)).toBe(1);
+  });
+
+  test('expired values fall back to the key default', () => {
+    const key = createKey<string>('ttl', 'default', 'local', { ttl: 10, default: 'fresh' });
+    StrictStore.save(key, 'stale');
+
+    advance(10);
+    expect(StrictStore.get(key)).toBe('fresh');
+  });
+
+  test('has, entries, size and keys ignore expired values', () => {
+    const shortKey = createKey<number>('ttl', 'short', 'local', { ttl: 10 });
+    const longKey = createKey<number>('ttl', 'long', 'session', { ttl: 1000 });
+    const plainKey = createKey<number>('ttl', 'none');
+
+    StrictStore.saveBatch([
+      [shortKey, 1],
+      [longKey, 2],
+      [plainKey, 3],
+    ]);
+
+    advance(10);
+
+    expect(StrictStore.has([shortKey, longKey, plainKey])).toEqual([false, true, true]);
+    expect(StrictStore.entries(['ttl']).map(({ value }) => value).sort()).toEqual([2, 3]);
+    expect(StrictStore.size(['ttl'])).toBe(2);
+    expect(StrictStore.keys(['ttl']).map(key => key.name).sort()).toEqual(['long', 'none']);
+  });
+
+  test('merge keeps the expiration of the existing value', () => {
+    const key = createKey<{ a: number; b: number }>('ttl', 'merge');
+    StrictStore.save(key, { a: 1, b: 1 }, { ttl: 100 });
+
+    advance(60);
+    StrictStore.merge(key, { b: 2 });
+    expect(StrictStore.get(key)).toEqual({ a: 1, b: 2 });
+
+    advance(40);
+    expect(StrictStore.get(key)).toBe(null);
+  });
+
+  test('purgeExpired removes only expired values', () => {
+    StrictStore.save(createKey<number>('ttl', 'a'), 1, { ttl: 10 });
+    StrictStore.save(createKey<number>('ttl', 'b', 'session'), 2, { ttl: 10 });
+    StrictStore.save(createKey<number>('ttl', 'c'), 3, { ttl: 100 });
+    StrictStore.save(createKey<number>('other', 'd'), 4, { ttl: 10 });
+
+    advance(10);
+
+    expect(StrictStore.purgeExpired(['ttl'])).toBe(2);
+    expect(localStorage.getItem(getFullName('ttl', 'a'))).toBe(null);
+    expect(sessionStorage.getItem(getFullName('ttl', 'b'))).toBe(null);
+    expect(localStorage.getItem(getFullName('ttl', 'c'))).not.toBe(null);
+
+    expect(StrictStore.purgeExpired()).toBe(1);
+    expect(localStorage.getItem(getFullName('other', 'd'))).toBe(null);
+  });
+
+  test('onChange treats an expired new value as missing', () => {
+    const key = createKey<string>('ttl', 'event');
+    const calls: unknown[][] = [];
+    const unsubscribe = StrictStore.onChange((_, newValue, oldValue) => {
+      calls.push([newValue, oldValue]);
+    }, [key]);
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: getFullName(key.ns, key.name),
+      newValue: `{"__type":"entry","meta":{"expiresAt":${now - 1}},"value":"new"}`,
+      oldValue: `{"__type":"entry","meta":{"expiresAt":${now + 1}},"value":"old"}`,
+      storageArea: localStorage,
+    }));
+
+    expect(calls).toEqual([[null, 'old']]);
+    unsubscribe();
+  });
+});
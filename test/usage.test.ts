@@ -0,0 +1,61 @@
+import { StrictStore, createKey } from '@src/strict-store';
+
+describe('StrictStore.usage', () => {
+  const themeKey = createKey<string>('settings', 'theme');
+  const cacheKey = createKey<string>('cache', 'response');
+  const draftKey = createKey<string>('cache', 'draft', 'session');
+
+  const bytes = (name: string, value: string) => (name.length + value.length) * 2;
+
+  beforeEach(() => {
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(cacheKey, 'x'.repeat(100));
+    StrictStore.save(draftKey, 'draft');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('reports bytes per key, namespace and storage type', () => {
+    const theme = bytes('strict-store/settings:theme', '"dark"');
+    const cache = bytes('strict-store/cache:response', `"${'x'.repeat(100)}"`);
+    const draft = bytes('strict-store/cache:draft', '"draft"');
+
+    const usage = StrictStore.usage();
+
+    expect(usage.total).toBe(theme + cache + draft);
+    expect(usage.keys).toEqual(expect.arrayContaining([
+      { key: expect.objectContaining({ ns: 'settings', name: 'theme' }), bytes: theme },
+      { key: expect.objectContaining({ ns: 'cache', name: 'response' }), bytes: cache },
+      { key: expect.objectContaining({ ns: 'cache', name: 'draft' }), bytes: draft },
+    ]));
+    expect(usage.namespaces).toEqual({ settings: theme, cache: cache + draft });
+    expect(usage.storages).toEqual({ local: theme + cache, session: draft });
+  });
+
+  it('lists the largest values', () => {
+    const { largest } = StrictStore.usage(undefined, { largest: 2 });
+
+    expect(largest.map(({ key }) => key.name)).toEqual(['response', 'theme']);
+  });
+
+  it('filters by namespaces', () => {
+    const usage = StrictStore.usage(['settings']);
+
+    expect(usage.keys).toHaveLength(1);
+    expect(Object.keys(usage.namespaces)).toEqual(['settings']);
+  });
+
+  it('estimates the remaining capacity of each storage', () => {
+    localStorage.setItem('foreign', 'value');
+
+    const { remaining } = StrictStore.usage();
+    const usedLocal = Object.keys(localStorage)
+      .reduce((sum, name) => sum + bytes(name, localStorage.getItem(name)!), 0);
+
+    expect(remaining.local).toBe(5 * 1024 * 1024 * 2 - usedLocal);
+    expect(remaining.memory).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import { StrictStore, StrictStoreValidationError, createKey, createStrictStore, StandardSchema } from '@src/strict-store';
+import { getFullName } from '@src/utils';
+
+type Profile = { name: string; age: number };
+
+const isProfile = (value: unknown): value is Profile =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Profile).name === 'string' &&
+  typeof (value as Profile).age === 'number';
+
+const profileSchema: StandardSchema<Profile> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => isProfile(value)
+      ? { value: { ...value, name: value.name.trim() } }
+      : { issues: [{ message: 'Expected a profile', path: ['name'] }] },
+  },
+};
+
+describe('Key validation', () => {
+  beforeEach(() => {
+    StrictStore.clear();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  const writeRaw = (ns: string, name: string, value: string) => {
+    localStorage.setItem(getFullName(ns, name), value);
+  };
+
+  describe('get', () => {
+    test('returns valid values unchanged', () => {
+      const key = createKey<Profile>('validation', 'guard', 'local', { validate: isProfile });
+      StrictStore.save(key, { name: 'Ann', age: 30 });
+
+      expect(StrictStore.get(key)).toEqual({ name: 'Ann', age: 30 });
+    });
+
+    test('returns null for invalid values by default', () => {
+      const key = createKey<Profile>('validation', 'default-policy', 'local', { validate: isProfile });
+      writeRaw('validation', 'default-policy', '{"name":42}');
+
+      expect(StrictStore.get(key)).toBe(null);
+      expect(localStorage.getItem(getFullName('validation', 'default-policy'))).toBe('{"name":42}');
+    });
+
+    test('removes invalid values with the "remove" policy', () => {
+      const key = createKey<Profile>('validation', 'remove-policy', 'local', {
+        validate: isProfile,
+        onInvalid: 'remove',
+      });
+      writeRaw('validation', 'remove-policy', '"not a profile"');
+
+      expect(StrictStore.get(key)).toBe(null);
+      expect(StrictStore.has(key)).toBe(false);
+    });
+
+    test('throws a typed error with the "throw" policy', () => {
+      const key = createKey<Profile>('validation', 'throw-policy', 'local', {
+        validate: profileSchema,
+        onInvalid: 'throw',
+      });
+      writeRaw('validation', 'throw-policy', '[1,2,3]');
+
+      expect(() => StrictStore.get(key)).toThrow(StrictStoreValidationError);
+
+      try {
+        StrictStore.get(key);
+      } catch (e) {
+        const error = e as StrictStoreValidationError;
+        expect(error.key.name).toBe('throw-policy');
+        expect(error.value).toEqual([1, 2, 3]);
+        expect(error.issues).toEqual([{ message: 'Expected a profile', path: ['name'] }]);
+      }
+    });
+
+    test('names the value with the prefix of its store', () => {
+      const key = createKey<Profile>('validation', 'prefixed', 'local', { validate: isProfile, onInvalid: 'throw' });
+      localStorage.setItem('app/validation:prefixed', '"not a profile"');
+
+      expect(() => createStrictStore({ prefix: 'app' }).get(key)).toThrow(
+        'StrictStore: Invalid value stored under "app/validation:prefixed".'
+      );
+    });
+
+    test('returns the value produced by a Standard Schema', () => {
+      const key = createKey<Profile>('validation', 'schema', 'local', { validate: profileSchema });
+      StrictStore.save(key, { name: '  Bob  ', age: 20 });
+
+      expect(StrictStore.get(key)).toEqual({ name: 'Bob', age: 20 });
+    });
+
+    test('rejects asynchronous schemas', () => {
+      const asyncSchema: StandardSchema<string> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async value => ({ value: value as string }),
+        },
+      };
+      const key = createKey<string>('validation', 'async', 'local', { validate: asyncSchema });
+      StrictStore.save(key, 'value');
+
+      expect(() => StrictStore.get(key)).toThrow('StrictStore: Asynchronous schemas are not supported.');
+    });
+  });
+
+  test('pick validates every key', () => {
+    const validKey = createKey<Profile>('validation', 'pick-valid', 'local', { validate: isProfile });
+    const invalidKey = createKey<Profile>('validation', 'pick-invalid', 'local', { validate: isProfile });
+
+    StrictStore.save(validKey, { name: 'Ann', age: 30 });
+    writeRaw('validation', 'pick-invalid', 'true');
+
+    expect(StrictStore.pick([validKey, invalidKey])).toEqual([{ name: 'Ann', age: 30 }, null]);
+  });
+
+  test('entries skips invalid values of validated keys', () => {
+    createKey<Profile>('validation', 'entries-invalid', 'local', {
+      validate: isProfile,
+      onInvalid: 'remove',
+    });
+    const validKey = createKey<Profile>('validation', 'entries-valid', 'local', { validate: isProfile });
+    const plainKey = createKey<number>('validation', 'entries-plain');
+
+    writeRaw('validation', 'entries-invalid', '1');
+    StrictStore.save(validKey, { name: 'Ann', age: 30 });
+    StrictStore.save(plainKey, 7);
+
+    const names = StrictStore.entries(['validation']).map(({ key }) => key.name).sort();
+
+    expect(names).toEqual(['entries-plain', 'entries-valid']);
+    expect(localStorage.getItem(getFullName('validation', 'entries-invalid'))).toBe(null);
+  });
+
+  test('has, size and keys leave out invalid values like get', () => {
+    const key = createKey<Profile>('validation', 'presence', 'local', { validate: isProfile, onInvalid: 'remove' });
+    const plainKey = createKey<number>('validation', 'presence-plain');
+
+    writeRaw('validation', 'presence', '"not a profile"');
+    StrictStore.save(plainKey, 7);
+
+    expect(StrictStore.has(key)).toBe(false);
+    expect(StrictStore.has([key, plainKey])).toEqual([false, true]);
+    expect(StrictStore.size(['validation'])).toBe(1);
+    expect(StrictStore.keys(['validation']).map(({ name }) => name)).toEqual(['presence-plain']);
+    expect(localStorage.getItem(getFullName('validation', 'presence'))).toBe('"not a profile"');
+  });
+
+  test('onChange validates new and old values', () => {
+    const key = createKey<Profile>('validation', 'on-change', 'local', { validate: isProfile });
+    const calls: unknown[][] = [];
+
+    const unsubscribe = StrictStore.onChange((_, newValue, oldValue) => {
+      calls.push([newValue, oldValue]);
+    }, [key]);
+
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: getFullName(key.ns, key.name),
+      newValue: '{"name":"Ann","age":30}',
+      oldValue: '"broken"',
+      storageArea: localStorage,
+    }));
+
+    expect(calls).toEqual([[{ name: 'Ann', age: 30 }, null]]);
+    unsubscribe();
+  });
+
+  test.each(['throw', 'remove'] as const)('onChange reports invalid values as null with the "%s" policy', onInvalid => {
+    const key = createKey<Profile>('validation', `on-change-${onInvalid}`, 'local', { validate: isProfile, onInvalid });
+    const callback = jest.fn();
+    const unsubscribe = StrictStore.onChange(callback, [key]);
+
+    writeRaw('validation', `on-change-${onInvalid}`, '"broken"');
+    window.dispatchEvent(new StorageEvent('storage', {
+      key: getFullName(key.ns, key.name),
+      newValue: '"broken"',
+      oldValue: null,
+      storageArea: localStorage,
+    }));
+
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ name: key.name }), null, null, 'remote');
+    expect(localStorage.getItem(getFullName(key.ns, key.name))).toBe('"broken"');
+    unsubscribe();
+  });
+
+  test('merge refuses to merge into an invalid value', () => {
+    const key = createKey<Profile>('validation', 'merge', 'local', { validate: isProfile });
+    writeRaw('validation', 'merge', '{"name":"Ann"}');
+
+    expect(() => StrictStore.merge(key, { age: 1 })).toThrow(
+      'StrictStore.merge: Cannot initialize the object. Use StrictStore.save for initial value.'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { effectScope, watch } from 'vue';
+import { StrictStore, createKey, createStrictStore } from '@src/strict-store';
+import { useStoreRef } from '@src/vue';
+
+describe('useStoreRef', () => {
+  const themeKey = createKey<'light' | 'dark'>('vue', 'theme', 'local', { default: 'light' });
+  const tagsKey = createKey<Set<string>>('vue', 'tags', 'session');
+
+  afterEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('holds the stored value or the default', () => {
+    StrictStore.save(tagsKey, new Set(['a']));
+    const scope = effectScope();
+    const [theme, tags] = scope.run(() => [useStoreRef(themeKey), useStoreRef(tagsKey)] as const)!;
+
+    expect(theme.value).toBe('light');
+    expect(tags.value).toEqual(new Set(['a']));
+
+    scope.stop();
+  });
+
+  it('writes through assignments', () => {
+    const scope = effectScope();
+    const tags = scope.run(() => useStoreRef(tagsKey))!;
+
+    tags.value = new Set(['b']);
+    expect(StrictStore.get(tagsKey)).toEqual(new Set(['b']));
+    expect(tags.value).toEqual(new Set(['b']));
+
+    tags.value = null;
+    expect(StrictStore.has(tagsKey)).toBe(false);
+    expect(tags.value).toBeNull();
+
+    scope.stop();
+  });
+
+  it('updates on external changes and triggers watchers', () => {
+    const scope = effectScope();
+    const seen: string[] = [];
+    const theme = scope.run(() => {
+      const theme = useStoreRef(themeKey);
+      watch(theme, value => seen.push(value), { flush: 'sync' });
+      return theme;
+    })!;
+
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.save(themeKey, 'dark');
+    StrictStore.remove([themeKey]);
+
+    expect(seen).toEqual(['dark', 'light']);
+    expect(theme.value).toBe('light');
+
+    scope.stop();
+  });
+
+  it('stops listening when the scope is disposed', () => {
+    const scope = effectScope();
+    const theme = scope.run(() => useStoreRef(themeKey))!;
+
+    scope.stop();
+    StrictStore.save(themeKey, 'dark');
+
+    expect(theme.value).toBe('light');
+  });
+
+  it('uses the given store', () => {
+    const store = createStrictStore({ prefix: 'vue-app' });
+    const scope = effectScope();
+    const theme = scope.run(() => useStoreRef(themeKey, { store }))!;
+
+    theme.value = 'dark';
+
+    expect(store.get(themeKey)).toBe('dark');
+    expect(StrictStore.get(themeKey)).toBe('light');
+
+    scope.stop();
+  });
+});
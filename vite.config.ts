@@ -5,11 +5,18 @@ import * as path from 'node:path';
 export default defineConfig({
   build: {
     lib: {
-      entry: 'src/strict-store.ts',
+      entry: {
+        'strict-store': 'src/strict-store.ts',
+        react: 'src/react.ts',
+        vue: 'src/vue.ts',
+        svelte: 'src/svelte.ts',
+      },
       name: 'strict-store',
-      fileName: 'strict-store',
       formats: ['es']
     },
+    rollupOptions: {
+      external: ['react', 'vue'],
+    },
     emptyOutDir: true,
   },
   resolve: {
@@ -20,8 +27,7 @@ export default defineConfig({
   plugins: [
     dts({
       entryRoot: 'src',
-      outDir: '.',
-      rollupTypes: true,
+      outDir: 'types',
       insertTypesEntry: true
     }
   )]